@@ -0,0 +1,473 @@
+//--------------------------------------------------------------------------------------------------
+// Imports
+//--------------------------------------------------------------------------------------------------
+import type { OpaqueOption, OpaqueOptions } from './options.js';
+import type { Resumable } from './utils.js';
+import type { OptionValidator } from './validator.js';
+
+import { getOptionNames, getParamCount, getParamWords } from './options.js';
+import { TextMessage } from './styles.js';
+import { getValues, runAsync } from './utils.js';
+
+//--------------------------------------------------------------------------------------------------
+// Constants
+//--------------------------------------------------------------------------------------------------
+/**
+ * The shells for which completion scripts can be generated.
+ */
+const completionShells = ['bash', 'zsh', 'fish', 'pwsh'] as const;
+
+//--------------------------------------------------------------------------------------------------
+// Public types
+//--------------------------------------------------------------------------------------------------
+/**
+ * A completion shell.
+ */
+export type CompletionShell = (typeof completionShells)[number];
+
+//--------------------------------------------------------------------------------------------------
+// Internal types
+//--------------------------------------------------------------------------------------------------
+/**
+ * The completion words of an option parameter. True means that the words should be obtained by
+ * calling back into the program. An empty list means that the shell's default completion should be
+ * used.
+ */
+type CompletionWords = ReadonlyArray<string> | true;
+
+/**
+ * The completion data of a (nested) command.
+ */
+type CompletionLevel = [
+  names: Array<string>,
+  params: Array<[name: string, words: CompletionWords]>,
+  commands: Array<[name: string, level: number]>,
+  positional: CompletionWords,
+];
+
+/**
+ * A function to render a completion script.
+ * @param levels The completion data of the main and nested commands
+ * @param progName The program name
+ * @param id An identifier derived from the program name
+ * @returns The script lines
+ */
+type ScriptFunction = (
+  levels: ReadonlyArray<CompletionLevel>,
+  progName: string,
+  id: string,
+) => Array<string>;
+
+//--------------------------------------------------------------------------------------------------
+// Functions
+//--------------------------------------------------------------------------------------------------
+/**
+ * Checks if a name is a completion shell.
+ * @param name The candidate name
+ * @returns True if the name is a completion shell
+ */
+export function isCompletionShell(name: string): name is CompletionShell {
+  return completionShells.includes(name as CompletionShell);
+}
+
+/**
+ * Gets the list of completion shells.
+ * @returns The shell names
+ * @internal
+ */
+export function getCompletionShells(): Array<string> {
+  return [...completionShells];
+}
+
+/**
+ * Generates a completion script for a set of option definitions.
+ * The script completes option names, enumerated values, truth and falsity names and the names of
+ * nested commands. For options with a custom completion callback, it calls back into the program.
+ * @param validator The validator instance
+ * @param shell The completion shell
+ * @param progName The program name
+ * @returns The completion script
+ */
+export function generateCompletion(
+  validator: OptionValidator,
+  shell: CompletionShell,
+  progName: string,
+): Promise<TextMessage> {
+  return runAsync(buildCompletion(validator, shell, progName));
+}
+
+/**
+ * Builds a completion script for a set of option definitions.
+ * @param validator The validator instance
+ * @param shell The completion shell
+ * @param progName The program name
+ * @param sync True if running synchronously
+ * @yields The values to be resolved
+ * @returns The completion script
+ * @internal
+ */
+export function* buildCompletion(
+  validator: OptionValidator,
+  shell: CompletionShell,
+  progName: string,
+  sync = false,
+): Resumable<TextMessage> {
+  const levels: Array<CompletionLevel> = [];
+  yield* buildLevels(validator, validator.options, levels, new Map(), sync);
+  const scriptFunctions: ReadonlyArray<ScriptFunction> = [
+    bashScript,
+    zshScript,
+    fishScript,
+    pwshScript,
+  ];
+  const id = progName.replace(/\W/g, '_');
+  return new TextMessage(...scriptFunctions[completionShells.indexOf(shell)](levels, progName, id));
+}
+
+/**
+ * Builds the completion data of a set of option definitions, including nested commands.
+ * @param validator The validator instance
+ * @param options The option definitions
+ * @param levels The list of completion data to append to
+ * @param visited The map of visited command options to their completion data index
+ * @param sync True if running synchronously
+ * @yields The values to be resolved
+ */
+function* buildLevels(
+  validator: OptionValidator,
+  options: OpaqueOptions,
+  levels: Array<CompletionLevel>,
+  visited: Map<OpaqueOption, number>,
+  sync: boolean,
+): Resumable<void> {
+  const level: CompletionLevel = [[], [], [], []];
+  levels.push(level);
+  const [names, params, commands] = level;
+  for (const option of getValues(options)) {
+    names.push(...getOptionNames(option));
+    const ownNames = option.names?.filter((name): name is string => !!name) ?? [];
+    if (option.type === 'command') {
+      let index = visited.get(option);
+      if (index === undefined) {
+        // register it before recursing, to support recursive command definitions
+        index = levels.length;
+        visited.set(option, index);
+        // do not destructure `options`, because the callback might need to use `this`
+        const resolved =
+          typeof option.options === 'function'
+            ? yield* validator.settle(option.preferredName ?? '', option.options(), sync)
+            : option.options ?? {};
+        yield* buildLevels(validator, resolved as OpaqueOptions, levels, visited, sync);
+      }
+      commands.push(...ownNames.map((name): [string, number] => [name, index]));
+    } else if (option.type === 'completion') {
+      params.push(...ownNames.map((name): [string, CompletionWords] => [name, completionShells]));
+    } else if (getParamCount(option)[1]) {
+      const words = option.complete ? true : getParamWords(option);
+      params.push(...ownNames.map((name): [string, CompletionWords] => [name, words]));
+      if (option.positional) {
+        level[3] = words;
+      }
+    }
+  }
+}
+
+/**
+ * Gets the completion words of a (nested) command when no option parameter is expected.
+ * @param level The completion data
+ * @returns The completion words
+ */
+function getLevelWords(level: CompletionLevel): CompletionWords {
+  const [names, , , positional] = level;
+  // when calling back into the program, it will also complete option names
+  return positional === true ? true : [...names, ...positional];
+}
+
+/**
+ * Quotes a word for use in a POSIX-like shell.
+ * @param word The word to be quoted
+ * @returns The quoted word
+ */
+function quotePosix(word: string): string {
+  return `'${word.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Quotes a word for use in the fish shell.
+ * @param word The word to be quoted
+ * @returns The quoted word
+ */
+function quoteFish(word: string): string {
+  return `'${word.replace(/[\\']/g, '\\$&')}'`;
+}
+
+/**
+ * Quotes a word for use in PowerShell.
+ * @param word The word to be quoted
+ * @returns The quoted word
+ */
+function quotePwsh(word: string): string {
+  return `'${word.replace(/'/g, `''`)}'`;
+}
+
+/**
+ * Renders the case clauses that switch between nested commands.
+ * @param levels The completion data
+ * @param clauseFn The function to render a clause
+ * @returns The clause lines
+ */
+function commandClauses(
+  levels: ReadonlyArray<CompletionLevel>,
+  clauseFn: (key: string, index: number) => Array<string>,
+): Array<string> {
+  return levels.flatMap(([, , commands], i) =>
+    commands.flatMap(([name, index]) => clauseFn(`${i}:${name}`, index)),
+  );
+}
+
+/**
+ * Renders the case clauses that complete option parameters.
+ * @param levels The completion data
+ * @param clauseFn The function to render a clause
+ * @returns The clause lines
+ */
+function paramClauses(
+  levels: ReadonlyArray<CompletionLevel>,
+  clauseFn: (key: string, words: CompletionWords) => Array<string>,
+): Array<string> {
+  return levels.flatMap(([, params], i) =>
+    params.flatMap(([name, words]) => clauseFn(`${i}:${name}`, words)),
+  );
+}
+
+/**
+ * Renders the case clauses that complete words when no option parameter is expected.
+ * @param levels The completion data
+ * @param clauseFn The function to render a clause
+ * @returns The clause lines
+ */
+function levelClauses(
+  levels: ReadonlyArray<CompletionLevel>,
+  clauseFn: (index: number, words: CompletionWords) => Array<string>,
+): Array<string> {
+  return levels.flatMap((level, i) => clauseFn(i, getLevelWords(level)));
+}
+
+/**
+ * Renders a completion script for bash.
+ * @param levels The completion data
+ * @param progName The program name
+ * @param id An identifier derived from the program name
+ * @returns The script lines
+ */
+function bashScript(
+  levels: ReadonlyArray<CompletionLevel>,
+  progName: string,
+  id: string,
+): Array<string> {
+  /** @ignore */
+  function assign(words: CompletionWords) {
+    return words === true
+      ? 'callback=1'
+      : words.length
+        ? `words=(${words.map(quotePosix).join(' ')})`
+        : 'return 0';
+  }
+  return [
+    `# bash completion for ${progName}`,
+    `_${id}_complete() {`,
+    `  local cur="\${COMP_WORDS[COMP_CWORD]}" prev='' level=0 callback=0 word i`,
+    '  local -a words=()',
+    '  for ((i = 1; i < COMP_CWORD; i++)); do',
+    '    word="${COMP_WORDS[i]}"',
+    '    case "$level:$word" in',
+    ...commandClauses(levels, (key, index) => [`      ${quotePosix(key)}) level=${index} ;;`]),
+    '    esac',
+    '    prev="$word"',
+    '  done',
+    '  case "$level:$prev" in',
+    ...paramClauses(levels, (key, words) => [`    ${quotePosix(key)}) ${assign(words)} ;;`]),
+    '    *)',
+    '      case "$level" in',
+    ...levelClauses(levels, (index, words) => [`        ${index}) ${assign(words)} ;;`]),
+    '      esac',
+    '      ;;',
+    '  esac',
+    '  if ((callback)); then',
+    '    mapfile -t words < <(COMP_LINE="$COMP_LINE" COMP_POINT="$COMP_POINT" "${COMP_WORDS[0]}" 2>/dev/null)',
+    '  fi',
+    '  for word in "${words[@]}"; do',
+    '    [[ "$word" == "$cur"* ]] && COMPREPLY+=("$word")',
+    '  done',
+    '  return 0',
+    '}',
+    `complete -o default -F _${id}_complete ${quotePosix(progName)}`,
+  ];
+}
+
+/**
+ * Renders a completion script for zsh.
+ * @param levels The completion data
+ * @param progName The program name
+ * @param id An identifier derived from the program name
+ * @returns The script lines
+ */
+function zshScript(
+  levels: ReadonlyArray<CompletionLevel>,
+  progName: string,
+  id: string,
+): Array<string> {
+  /** @ignore */
+  function assign(words: CompletionWords) {
+    return words === true
+      ? 'callback=1'
+      : words.length
+        ? `list=(${words.map(quotePosix).join(' ')})`
+        : '_files; return';
+  }
+  return [
+    `#compdef ${progName}`,
+    `_${id}_complete() {`,
+    `  local prev='' level=0 callback=0 word i line`,
+    '  local -a list',
+    '  for ((i = 2; i < CURRENT; i++)); do',
+    '    word="${words[i]}"',
+    '    case "$level:$word" in',
+    ...commandClauses(levels, (key, index) => [`      (${quotePosix(key)}) level=${index} ;;`]),
+    '    esac',
+    '    prev="$word"',
+    '  done',
+    '  case "$level:$prev" in',
+    ...paramClauses(levels, (key, words) => [`    (${quotePosix(key)}) ${assign(words)} ;;`]),
+    '    (*)',
+    '      case "$level" in',
+    ...levelClauses(levels, (index, words) => [`        (${index}) ${assign(words)} ;;`]),
+    '      esac',
+    '      ;;',
+    '  esac',
+    '  if ((callback)); then',
+    '    line="${(j: :)words[1,CURRENT]}"',
+    '    list=(${(f)"$(COMP_LINE="$line" COMP_POINT="${#line}" "${words[1]}" 2>/dev/null)"})',
+    '  fi',
+    '  compadd -- "${list[@]}"',
+    '}',
+    `compdef _${id}_complete ${quotePosix(progName)}`,
+  ];
+}
+
+/**
+ * Renders a completion script for fish.
+ * @param levels The completion data
+ * @param progName The program name
+ * @param id An identifier derived from the program name
+ * @returns The script lines
+ */
+function fishScript(
+  levels: ReadonlyArray<CompletionLevel>,
+  progName: string,
+  id: string,
+): Array<string> {
+  /** @ignore */
+  function assign(words: CompletionWords, indent: string) {
+    return words === true
+      ? [indent + 'set callback 1']
+      : words.length
+        ? [indent + `set words ${words.map(quoteFish).join(' ')}`]
+        : [indent + '__fish_complete_path (commandline -ct)', indent + 'return'];
+  }
+  return [
+    `# fish completion for ${progName}`,
+    `function __${id}_complete`,
+    '    set -l tokens (commandline -opc)',
+    '    set -l level 0',
+    "    set -l prev ''",
+    '    set -l callback 0',
+    '    set -l words',
+    '    for word in $tokens[2..-1]',
+    '        switch "$level:$word"',
+    ...commandClauses(levels, (key, index) => [
+      `            case ${quoteFish(key)}`,
+      `                set level ${index}`,
+    ]),
+    '        end',
+    '        set prev $word',
+    '    end',
+    '    switch "$level:$prev"',
+    ...paramClauses(levels, (key, words) => [
+      `        case ${quoteFish(key)}`,
+      ...assign(words, ' '.repeat(12)),
+    ]),
+    "        case '*'",
+    '            switch $level',
+    ...levelClauses(levels, (index, words) => [
+      `                case ${index}`,
+      ...assign(words, ' '.repeat(20)),
+    ]),
+    '            end',
+    '    end',
+    '    if test $callback -eq 1',
+    '        set -l line (commandline -cp)',
+    '        set words (env COMP_LINE="$line" COMP_POINT=(string length -- "$line") $tokens[1] 2>/dev/null)',
+    '    end',
+    '    if set -q words[1]',
+    "        printf '%s\\n' $words",
+    '    end',
+    'end',
+    `complete -c ${quoteFish(progName)} -f -a '(__${id}_complete)'`,
+  ];
+}
+
+/**
+ * Renders a completion script for PowerShell.
+ * @param levels The completion data
+ * @param progName The program name
+ * @returns The script lines
+ */
+function pwshScript(levels: ReadonlyArray<CompletionLevel>, progName: string): Array<string> {
+  /** @ignore */
+  function assign(words: CompletionWords) {
+    return words === true
+      ? '$callback = $true'
+      : words.length
+        ? `$words = @(${words.map(quotePwsh).join(', ')})`
+        : 'return';
+  }
+  return [
+    `# PowerShell completion for ${progName}`,
+    `Register-ArgumentCompleter -Native -CommandName ${quotePwsh(progName)} -ScriptBlock {`,
+    '    param($wordToComplete, $commandAst, $cursorPosition)',
+    '    $tokens = @($commandAst.CommandElements |',
+    '        Where-Object { $_.Extent.EndOffset -lt $cursorPosition } |',
+    '        ForEach-Object { $_.ToString() })',
+    '    $level = 0',
+    "    $prev = ''",
+    '    $callback = $false',
+    '    $words = @()',
+    '    foreach ($word in ($tokens | Select-Object -Skip 1)) {',
+    '        switch -CaseSensitive ("${level}:$word") {',
+    ...commandClauses(levels, (key, index) => [
+      `            ${quotePwsh(key)} { $level = ${index} }`,
+    ]),
+    '        }',
+    '        $prev = $word',
+    '    }',
+    '    switch -CaseSensitive ("${level}:$prev") {',
+    ...paramClauses(levels, (key, words) => [`        ${quotePwsh(key)} { ${assign(words)} }`]),
+    '        default {',
+    '            switch ($level) {',
+    ...levelClauses(levels, (index, words) => [`                ${index} { ${assign(words)} }`]),
+    '            }',
+    '        }',
+    '    }',
+    '    if ($callback) {',
+    '        $env:COMP_LINE = $commandAst.ToString()',
+    '        $env:COMP_POINT = $cursorPosition - $commandAst.Extent.StartOffset',
+    '        $words = @(& $tokens[0] 2>$null)',
+    '        Remove-Item Env:COMP_LINE, Env:COMP_POINT',
+    '    }',
+    '    $words | Where-Object { $_.StartsWith($wordToComplete) } | ForEach-Object {',
+    "        [System.Management.Automation.CompletionResult]::new($_, $_, 'ParameterValue', $_)",
+    '    }',
+    '}',
+  ];
+}
@@ -159,6 +159,107 @@ export const enum ErrorItem {
    * Raised by the validator when a variadic option declares an inline constraint.
    */
   invalidInlineConstraint,
+  /**
+   * Raised by the parser when a response file is not found.
+   */
+  missingResponseFile,
+  /**
+   * Raised by the parser when a response file references itself, either directly or indirectly.
+   */
+  circularResponseFile,
+  /**
+   * Raised by the parser when a configuration file that was explicitly specified is not found.
+   */
+  missingConfigFile,
+  /**
+   * Raised by the parser when a configuration file cannot be parsed.
+   */
+  invalidConfigFile,
+  /**
+   * Raised by the parser when a configuration file has an invalid value for an option.
+   */
+  invalidConfigValue,
+  /**
+   * Raised by the parser when an abbreviated option name matches the names of multiple options.
+   */
+  ambiguousOption,
+  /**
+   * Raised by the parser when a parameter of a record option is not a key-value pair.
+   */
+  invalidRecordPair,
+  /**
+   * Raised by the parser when a key of a record option is specified more than once, and the
+   * option does not allow duplicate keys.
+   */
+  duplicateRecordKey,
+  /**
+   * Raised by the validator when an exclusive group references an unknown option.
+   */
+  unknownGroupOption,
+  /**
+   * Raised by the validator when an exclusive group references the same option more than once.
+   */
+  duplicateGroupOption,
+  /**
+   * Raised by the validator when an exclusive group that forbids multiple options contains an
+   * option that is always required.
+   */
+  invalidGroupOption,
+  /**
+   * Raised by the parser when the options specified from an exclusive group do not satisfy its
+   * constraint.
+   */
+  unsatisfiedGroup,
+  /**
+   * Raised by the validator when a phrase in a locale bundle has format specifiers that differ from
+   * those of the original phrase.
+   */
+  invalidLocalePhrase,
+  /**
+   * Raised by the parser when an option callback returns a promise during synchronous parsing.
+   */
+  asyncCallback,
+  /**
+   * Raised by the parser when a parameter of a duration, size or date option cannot be parsed.
+   */
+  invalidUnitValue,
+  /**
+   * Raised by the parser when a parameter of a bigint option is not an integer, and the option
+   * does not have a rounding conversion.
+   */
+  invalidBigIntValue,
+  /**
+   * Raised by the parser when a parameter of a path option refers to a nonexistent path.
+   */
+  missingPath,
+  /**
+   * Raised by the parser when a parameter of a path option refers to a filesystem entry of the
+   * wrong kind.
+   */
+  invalidPathKind,
+  /**
+   * Raised by the parser when a parameter of a path option refers to a path that cannot be
+   * accessed with the required permissions.
+   */
+  inaccessiblePath,
+  /**
+   * Raised by the parser when a parameter of a path option does not have an allowed extension.
+   */
+  invalidPathExtension,
+  /**
+   * Warning produced by the validator when an option name that may be abbreviated is a prefix of
+   * the names of other options that may also be abbreviated.
+   */
+  prefixOptionName,
+  /**
+   * Raised by the parser when synchronous parsing needs file access, but the runtime does not
+   * provide the built-in module registry.
+   */
+  missingBuiltinModules,
+  /**
+   * Raised by the validator when more than one option is declared with the `configFile` attribute.
+   */
+  duplicateConfigFileOption,
 }
 
 /**
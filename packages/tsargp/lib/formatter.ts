@@ -8,18 +8,20 @@ import type {
   RequiresCallback,
   RequiresEntry,
   RequiresVal,
+  ExclusiveGroup,
 } from './options.js';
-import type { Style, FormatStyles, ConnectiveWords, HelpMessage } from './styles.js';
+import type { Style, FormatStyles, ConnectiveWords, HelpMessage, Theme } from './styles.js';
 import type { Concrete } from './utils.js';
-import type { OptionValidator } from './validator.js';
 
-import { tf, HelpItem, ConnectiveWord } from './enums.js';
+import { tf, fg, bg, HelpItem, ConnectiveWord } from './enums.js';
 import {
   RequiresAll,
   RequiresOne,
   isOpt,
   getParamCount,
   getOptionNames,
+  getRecordPairs,
+  getUnitString,
   visitRequirements,
 } from './options.js';
 import { AnsiMessage, JsonMessage, TextMessage, TerminalString, style, format } from './styles.js';
@@ -31,7 +33,9 @@ import {
   getValues,
   getKeys,
   mergeValues,
+  isThenable,
 } from './utils.js';
+import { OptionValidator, defaultConfig as validatorConfig } from './validator.js';
 
 //--------------------------------------------------------------------------------------------------
 // Public types
@@ -184,12 +188,50 @@ export type WithRequired = {
    * A map of option keys to required options.
    */
   readonly requires?: Readonly<Record<string, string>>;
+  /**
+   * True if option dependencies should be inferred from the options' requirements.
+   * The `requires` map is used for options whose requirements cannot be inferred.
+   */
+  readonly inferRequires?: true;
   /**
    * A commentary to append to the usage.
    */
   readonly comment?: string;
 };
 
+/**
+ * A synopsis definition, i.e., a variant of the usage text.
+ */
+export type HelpSynopsis = WithFilter &
+  WithRequired & {
+    /**
+     * The synopsis name.
+     */
+    readonly name: string;
+  };
+
+/**
+ * Defines additional attributes for the usage section.
+ */
+export type WithSynopses = {
+  /**
+   * A list of synopsis definitions.
+   * If present, each synopsis is rendered as a separate usage line, inheriting the attributes of the
+   * section that it does not override.
+   */
+  readonly synopses?: ReadonlyArray<HelpSynopsis>;
+};
+
+/**
+ * Defines additional attributes for the commands section.
+ */
+export type WithDepth = {
+  /**
+   * The maximum depth of nested commands to render. (Defaults to Infinity)
+   */
+  readonly depth?: number;
+};
+
 /**
  * A help text section.
  */
@@ -198,17 +240,27 @@ export type HelpText = WithKind<'text'> & WithTitle & WithText & WithIndent;
 /**
  * A help usage section.
  */
-export type HelpUsage = WithKind<'usage'> & WithTitle & WithIndent & WithFilter & WithRequired;
+export type HelpUsage = WithKind<'usage'> &
+  WithTitle &
+  WithIndent &
+  WithFilter &
+  WithRequired &
+  WithSynopses;
 
 /**
  * A help groups section.
  */
 export type HelpGroups = WithKind<'groups'> & WithTitle & WithFilter;
 
+/**
+ * A help commands section.
+ */
+export type HelpCommands = WithKind<'commands'> & WithTitle & WithIndent & WithDepth;
+
 /**
  * A help section.
  */
-export type HelpSection = HelpText | HelpUsage | HelpGroups;
+export type HelpSection = HelpText | HelpUsage | HelpGroups | HelpCommands;
 
 /**
  * A list of help sections.
@@ -247,6 +299,16 @@ type AnsiHelpEntry = [
  */
 type CsvHelpEntry = ReadonlyArray<string>;
 
+/**
+ * A help entry for the HTML format.
+ */
+type HtmlHelpEntry = [names: string, param: string, descr: string];
+
+/**
+ * A help entry for the man page format.
+ */
+type ManHelpEntry = [head: string, descr: ReadonlyArray<string>, subsection: ReadonlyArray<string>];
+
 /**
  * Information about the current help message.
  */
@@ -255,6 +317,9 @@ type HelpContext = [
   options: OpaqueOptions,
   connectives: ConnectiveWords,
   config: ConcreteFormat,
+  exclusive: ReadonlyArray<ExclusiveGroup>,
+  theme: Theme,
+  commands: ReadonlyMap<OpaqueOption, OpaqueOptions>,
 ];
 
 /**
@@ -342,35 +407,7 @@ const defaultConfig: ConcreteFormat = {
     HelpItem.useFilter,
     HelpItem.inline,
   ],
-  phrases: {
-    [HelpItem.desc]: '%t',
-    [HelpItem.negationNames]: 'Can be negated with %o.',
-    [HelpItem.separator]: 'Values are delimited by (%s|%r).',
-    [HelpItem.paramCount]: 'Accepts (multiple|%n|at most %n|at least %n|between %n) parameters.',
-    [HelpItem.positional]: 'Accepts positional parameters(| that may be preceded by %o).',
-    [HelpItem.append]: 'May be specified multiple times.',
-    [HelpItem.trim]: 'Values will be trimmed.',
-    [HelpItem.case]: 'Values will be converted to (lowercase|uppercase).',
-    [HelpItem.conv]: 'Values will be converted with Math.%t.',
-    [HelpItem.enums]: 'Values must be one of {(%s|%n)}.',
-    [HelpItem.regex]: 'Values must match the regex %r.',
-    [HelpItem.range]: 'Values must be in the range [%n].',
-    [HelpItem.unique]: 'Duplicate values will be removed.',
-    [HelpItem.limit]: 'Element count is limited to %n.',
-    [HelpItem.requires]: 'Requires %p.',
-    [HelpItem.required]: 'Always required.',
-    [HelpItem.default]: 'Defaults to (%b|%s|%n|[%s]|[%n]|%v).',
-    [HelpItem.deprecated]: 'Deprecated for %t.',
-    [HelpItem.link]: 'Refer to %u for details.',
-    [HelpItem.envVar]: 'Can be specified through the %o environment variable.',
-    [HelpItem.requiredIf]: 'Required if %p.',
-    [HelpItem.clusterLetters]: 'Can be clustered with %s.',
-    [HelpItem.fallback]: 'Falls back to (%b|%s|%n|[%s]|[%n]|%v) if specified without parameter.',
-    [HelpItem.useNested]: 'Uses the next argument as the name of a nested command.',
-    [HelpItem.useFormat]: 'Uses the next argument as the name of a help format.',
-    [HelpItem.useFilter]: 'Uses the remaining arguments as option filter.',
-    [HelpItem.inline]: '(Disallows|Requires) inline parameters.',
-  },
+  phrases: validatorConfig.helpPhrases,
   filter: [],
 };
 
@@ -449,7 +486,7 @@ const helpFunctions = [
    * @ignore
    */
   (option, phrase, _, result) => {
-    if (option.append) {
+    if (option.append || option.type === 'count') {
       result.split(phrase);
     }
   },
@@ -519,7 +556,8 @@ const helpFunctions = [
     const range = option.range;
     if (range) {
       const sep = context[2][ConnectiveWord.numberSep];
-      result.format(context[0], phrase, { n: range }, { sep });
+      const n = isOpt.unit(option) ? range.map((val) => getUnitString(option, val)) : range;
+      result.format(context[0], phrase, { n }, { sep });
     }
   },
   /**
@@ -700,13 +738,62 @@ const fieldNames = [
 /**
  * The available help formats.
  */
-const helpFormats = ['ansi', 'json', 'csv', 'md'] as const;
+const helpFormats = ['ansi', 'json', 'csv', 'md', 'man', 'html'] as const;
 
 /**
  * The Markdown text elements.
  */
 const markdown: [sep: string, open: string, close: string] = [' | ', '| ', ' |'];
 
+/**
+ * The styles used in man pages. Only bold and italic type faces are supported.
+ */
+const manStyles: FormatStyles = {
+  boolean: style(tf.clear),
+  string: style(tf.clear),
+  number: style(tf.clear),
+  regex: style(tf.clear),
+  option: style(tf.bold),
+  value: style(tf.italic),
+  url: style(tf.underlined),
+  text: style(tf.clear),
+};
+
+/**
+ * The CSS classes for SGR attributes, keyed by attribute and grouped by category.
+ * An attribute without a class resets the corresponding category.
+ */
+const htmlClasses: Readonly<Record<number, [category: string, cls?: string]>> = {
+  [tf.bold]: ['weight', 'bold'],
+  [tf.faint]: ['weight', 'faint'],
+  [tf.italic]: ['italic', 'italic'],
+  [tf.underlined]: ['underline', 'underline'],
+  [tf.inverse]: ['inverse', 'inverse'],
+  [tf.crossedOut]: ['strike', 'strike'],
+  [tf.doublyUnderlined]: ['underline', 'double-underline'],
+  [tf.notBoldOrFaint]: ['weight'],
+  [tf.notItalicNorFraktur]: ['italic'],
+  [tf.notUnderlined]: ['underline'],
+  [tf.notInverse]: ['inverse'],
+  [tf.notCrossedOut]: ['strike'],
+  [tf.overlined]: ['overline', 'overline'],
+  [tf.notOverlined]: ['overline'],
+  [fg.default]: ['fg'],
+  [bg.default]: ['bg'],
+  59: ['ul'], // default underline color
+};
+
+/**
+ * The HTML special characters and their escaped entities.
+ */
+const htmlEntities: Readonly<Record<string, string>> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
 //--------------------------------------------------------------------------------------------------
 // Classes
 //--------------------------------------------------------------------------------------------------
@@ -722,9 +809,19 @@ export abstract class HelpFormatter {
    * @param config The formatter configuration
    */
   constructor(validator: OptionValidator, config: FormatterConfig = {}) {
-    const { styles, connectives } = validator.config;
-    const concreteConfig = mergeValues(defaultConfig, config);
-    this.context = [styles, validator.options, connectives, concreteConfig];
+    const { styles, connectives, helpPhrases } = validator.config;
+    const phrases = { ...helpPhrases, ...config.phrases };
+    const concreteConfig = mergeValues(defaultConfig, { ...config, phrases });
+    const { options, exclusive, config: valConfig, commands } = validator;
+    this.context = [
+      styles,
+      options,
+      connectives,
+      concreteConfig,
+      exclusive,
+      valConfig.theme,
+      commands,
+    ];
   }
 
   /**
@@ -784,9 +881,17 @@ export class JsonFormatter extends HelpFormatter {
     return new JsonMessage(...(this.groups[name] ?? []));
   }
 
-  override sections(sections: HelpSections): JsonMessage {
+  override sections(sections: HelpSections, progName = ''): JsonMessage {
     const result = new JsonMessage();
-    formatGroupsSections(this.groups, sections, (_, entries) => result.push(...entries));
+    for (const section of sections) {
+      if (section.type === 'groups') {
+        formatGroups(this.groups, section, (_, entries) => result.push(...entries));
+      } else if (section.type === 'usage' && section.synopses) {
+        const synopses = formatSynopses(this.context, section, progName);
+        // tag the entries, so they are not confused with option entries
+        result.push(...synopses.map(([name, usage]) => ({ type: 'synopsis', name, usage })));
+      }
+    }
     return result;
   }
 }
@@ -838,18 +943,101 @@ export class MdFormatter extends CsvFormatter {
     return formatCsvEntries(entries ? [...this.header, ...entries] : [], undefined, ...markdown);
   }
 
-  override sections(sections: HelpSections): TextMessage {
-    const result = new TextMessage();
-    formatGroupsSections(this.groups, sections, (group, entries, section) => {
+  override sections(sections: HelpSections, progName = ''): TextMessage {
+    /** @ignore */
+    function table(title: string | undefined, entries: ReadonlyArray<CsvHelpEntry>) {
       if (result.length) {
         result.push(''); // line feed between tables
       }
-      const title = group || section.title;
       if (title) {
         result.push('## ' + title, ''); // section before table
       }
-      formatCsvEntries([...this.header, ...entries], result, ...markdown);
+      formatCsvEntries(entries, result, ...markdown);
+    }
+    const result = new TextMessage();
+    for (const section of sections) {
+      if (section.type === 'groups') {
+        formatGroups(this.groups, section, (group, entries) => {
+          table(group || section.title, [...this.header, ...entries]);
+        });
+      } else if (section.type === 'usage' && section.synopses) {
+        const synopses = formatSynopses(this.context, section, progName).map(([name, usage]) => [
+          name,
+          '`' + usage.replace(/\|/g, '\\|') + '`',
+        ]);
+        table(section.title, [['name', 'usage'], ['----', '-----'], ...synopses]);
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * Implements formatting of man page help messages for a set of option definitions.
+ */
+export class ManFormatter extends HelpFormatter {
+  protected readonly groups: EntriesByGroup<ManHelpEntry>;
+
+  constructor(validator: OptionValidator, config?: FormatterConfig, prefix = '') {
+    super(validator, config);
+    this.context[0] = manStyles;
+    this.context[5] = {}; // fonts are determined by the man page styles
+    this.groups = buildEntries(this.context, (option): ManHelpEntry => {
+      const [head, descr] = formatManEntry(this.context, option);
+      const options = option.options;
+      if (option.type !== 'command' || !options || typeof options === 'function') {
+        return [head, descr, []];
+      }
+      const title = (prefix && prefix + ' ') + (option.preferredName ?? '');
+      const cmdValidator = new OptionValidator(
+        options as OpaqueOptions,
+        validator.config,
+        option.exclusive,
+      );
+      const entries = getValues(new ManFormatter(cmdValidator, config, title).groups).flat();
+      return [head, descr, [formatRoffMacro('.SS', title), ...formatManEntries(entries)]];
     });
+  }
+
+  override format(name = ''): TextMessage {
+    return formatManEntries(this.groups[name] ?? []);
+  }
+
+  override sections(sections: HelpSections, progName = ''): TextMessage {
+    const result = new TextMessage();
+    if (progName) {
+      result.push(formatRoffMacro('.TH', progName.toUpperCase()) + ' 1');
+      const desc = getManDescription(sections);
+      result.push('.SH NAME', escapeRoff(progName) + (desc && ' \\- ' + escapeRoff(desc)));
+    }
+    for (const section of sections) {
+      formatManSection(this.groups, this.context, section, progName, result);
+    }
+    return result;
+  }
+}
+
+/**
+ * Implements formatting of HTML help messages for a set of option definitions.
+ */
+export class HtmlFormatter extends HelpFormatter {
+  protected readonly groups: EntriesByGroup<HtmlHelpEntry>;
+
+  constructor(validator: OptionValidator, config?: FormatterConfig) {
+    super(validator, config);
+    this.groups = buildEntries(this.context, (option) => formatHtmlEntry(this.context, option));
+  }
+
+  override format(name = ''): TextMessage {
+    const entries = this.groups[name];
+    return entries ? formatHtmlEntries(entries) : new TextMessage();
+  }
+
+  override sections(sections: HelpSections, progName = ''): TextMessage {
+    const result = new TextMessage();
+    for (const section of sections) {
+      formatHtmlSection(this.groups, this.context, section, progName, result);
+    }
     return result;
   }
 }
@@ -869,7 +1057,14 @@ export function createFormatter(
   config?: FormatterConfig,
   format: HelpFormat = 'ansi',
 ): HelpFormatter {
-  const classes = [AnsiFormatter, JsonFormatter, CsvFormatter, MdFormatter];
+  const classes = [
+    AnsiFormatter,
+    JsonFormatter,
+    CsvFormatter,
+    MdFormatter,
+    ManFormatter,
+    HtmlFormatter,
+  ];
   return new classes[helpFormats.indexOf(format)](validator, config);
 }
 
@@ -1023,12 +1218,12 @@ function formatNames(
   option: OpaqueOption,
   nameWidths: Array<number> | number,
 ): Array<TerminalString> {
-  const [styles, , connectives, config] = context;
+  const [styles, , connectives, config, , theme] = context;
   let { indent, breaks, align, hidden } = config.names;
   if (hidden || !option.names) {
     return [];
   }
-  const style = option.styles?.names ?? styles.option;
+  const style = option.styles?.names ?? theme.options?.names ?? styles.option;
   const sep = connectives[ConnectiveWord.optionSep];
   const slotted = typeof nameWidths !== 'number';
   const result: Array<TerminalString> = [];
@@ -1074,7 +1269,7 @@ function formatParams(context: HelpContext, option: OpaqueOption): [TerminalStri
   if (hidden) {
     return [result, 0];
   }
-  formatParam(option, context[0], result.break(breaks));
+  formatParam(option, context, result.break(breaks));
   const len = result.lengths.reduce((acc, len) => acc + (len ? len + 1 : 0), -1);
   if (len < 0) {
     return [result.pop(result.count), 0]; // this string does not contain any word
@@ -1098,7 +1293,7 @@ function formatDescription(context: HelpContext, option: OpaqueOption): Terminal
   if (hidden || !items.length) {
     return result.break();
   }
-  const style = option.styles?.descr ?? styles.text;
+  const style = option.styles?.descr ?? context[5].options?.descr ?? styles.text;
   result.break(breaks).seq(style);
   styles.current = style;
   const count = result.count;
@@ -1189,6 +1384,407 @@ function formatCsvEntries(
   return result;
 }
 
+/**
+ * Formats an option's help entry using the man page format.
+ * @param context The help context
+ * @param option The option definition
+ * @returns [the entry heading, the description lines]
+ */
+function formatManEntry(
+  context: HelpContext,
+  option: OpaqueOption,
+): [string, ReadonlyArray<string>] {
+  const [, , , config] = context;
+  const head = formatNames(context, option, 0).flatMap(formatRoff);
+  if (!config.param.hidden) {
+    const param = new TerminalString();
+    formatParam(option, context, param);
+    head.push(...formatRoff(param));
+  }
+  return [head.join(' '), formatRoff(formatDescription(context, option))];
+}
+
+/**
+ * Formats a help message from a list of man page help entries.
+ * Each entry is rendered as a tagged paragraph, and subsections of nested commands are rendered
+ * after all entries.
+ * @param entries The help entries
+ * @param result The resulting message
+ * @returns The resulting message
+ */
+function formatManEntries(
+  entries: ReadonlyArray<ManHelpEntry>,
+  result = new TextMessage(),
+): TextMessage {
+  for (const [head, descr] of entries) {
+    result.push('.TP', head, ...descr);
+  }
+  for (const [, , subsection] of entries) {
+    result.push(...subsection);
+  }
+  return result;
+}
+
+/**
+ * Formats a help section to be included in the full help message, using the man page format.
+ * Usage and groups sections are rendered with the standard SYNOPSIS and OPTIONS headings,
+ * respectively, whereas text and commands sections use their title (or DESCRIPTION and COMMANDS,
+ * respectively, if they have none). Nested commands are rendered as indented tagged paragraphs.
+ * @param groups The option groups
+ * @param context The help context
+ * @param section The help section
+ * @param progName The program name
+ * @param result The resulting message
+ */
+function formatManSection(
+  groups: EntriesByGroup<ManHelpEntry>,
+  context: HelpContext,
+  section: HelpSection,
+  progName: string,
+  result: TextMessage,
+) {
+  if (section.type === 'commands') {
+    const heading = section.title?.replace(/:$/, '').toUpperCase() || 'COMMANDS';
+    result.push(formatRoffMacro('.SH', heading));
+    let prev = 0;
+    visitCommands(context, section.depth ?? Infinity, (option, level, parent, cmdContext) => {
+      for (; prev < level; ++prev) {
+        result.push('.RS');
+      }
+      for (; prev > level; --prev) {
+        result.push('.RE');
+      }
+      const names = new TerminalString();
+      formatUsageNames(parent, option, names);
+      const head = formatRoff(names);
+      if (cmdContext) {
+        head.push(...formatRoff(formatUsage(cmdContext, { type: 'usage' })));
+      }
+      result.push('.TP', head.join(' '));
+      if (option.desc) {
+        result.push(...formatRoff(formatText(option.desc, context[0].text, 0, 0)));
+      }
+    });
+    for (; prev > 0; --prev) {
+      result.push('.RE');
+    }
+  } else if (section.type === 'groups') {
+    result.push('.SH OPTIONS');
+    formatGroups(groups, section, (group, entries) => {
+      if (group) {
+        result.push(formatRoffMacro('.SS', group));
+      }
+      formatManEntries(entries, result);
+    });
+  } else if (section.type === 'usage') {
+    const prog = progName && `\\fB${escapeRoff(progName)}\\fR`;
+    result.push('.SH SYNOPSIS');
+    getUsages(section).forEach((usage, i) => {
+      const line = formatRoff(formatUsage(context, usage)).join(' ');
+      result.push(...(i ? ['.br'] : []), [prog, line].filter((str) => str).join(' '));
+    });
+  } else {
+    const { title, text } = section;
+    const heading = title?.replace(/:$/, '').toUpperCase() || 'DESCRIPTION';
+    result.push(formatRoffMacro('.SH', heading));
+    if (text) {
+      result.push(...formatRoff(formatText(text, context[0].text, 0, 0, section.noWrap)));
+    }
+  }
+}
+
+/**
+ * Gets the one-line description of a program, to be included in the NAME section of a manual page.
+ * It is taken from the first paragraph of the first text section.
+ * @param sections The help sections
+ * @returns The program description
+ */
+function getManDescription(sections: HelpSections): string {
+  const section = sections.find((section) => section.type === 'text' && section.text);
+  const text = section?.type === 'text' ? section.text ?? '' : '';
+  return text.split(regexps.para)[0].replace(regexps.style, '').replace(regexps.space, ' ').trim();
+}
+
+/**
+ * Formats a terminal string into roff lines.
+ * Line breaks are converted to `.br` requests and paragraph breaks to `.sp` requests.
+ * @param str The terminal string
+ * @returns The list of roff lines
+ */
+function formatRoff(str: TerminalString): Array<string> {
+  const strings: Array<string> = [];
+  str.indent = 0; // avoid cursor movement sequences
+  str.wrap(strings, 0, 0, true);
+  let font = 'R';
+  let text = escapeRoff(strings.join('').replace(regexps.link, '')).replace(
+    regexps.style,
+    (seq) => {
+      const prev = font;
+      font = getRoffFont(seq, font);
+      return font === prev ? '' : `\\f${font}`;
+    },
+  );
+  if (font !== 'R') {
+    text += '\\fR';
+  }
+  const result: Array<string> = [];
+  let breaks = 0;
+  for (const line of text.split('\n')) {
+    if (!line.trim()) {
+      breaks++; // count empty lines
+      continue;
+    }
+    if (result.length) {
+      result.push(breaks ? '.sp' : '.br');
+    }
+    result.push(line.trim().replace(/^[.']/, '\\&$&'));
+    breaks = 0;
+  }
+  return result;
+}
+
+/**
+ * Gets the roff font that results from a series of SGR sequences.
+ * Colors and other attributes are ignored.
+ * @param seq The SGR sequences
+ * @param font The current font
+ * @returns The resulting font
+ */
+function getRoffFont(seq: string, font: string): string {
+  // eslint-disable-next-line no-control-regex
+  for (const [, params] of seq.matchAll(/\x1b\[([\d;]*)m/g)) {
+    const attrs = params.split(';').map(Number);
+    for (let i = 0; i < attrs.length; ++i) {
+      const attr = attrs[i];
+      if (attr === 38 || attr === 48 || attr === 58) {
+        i += attrs[i + 1] === 2 ? 4 : 2; // skip extended color
+      } else if (attr === tf.bold) {
+        font = 'B';
+      } else if (attr === tf.italic || attr === tf.underlined) {
+        font = 'I';
+      } else if (
+        attr === tf.clear ||
+        attr === tf.notBoldOrFaint ||
+        attr === tf.notItalicNorFraktur ||
+        attr === tf.notUnderlined
+      ) {
+        font = 'R';
+      }
+    }
+  }
+  return font;
+}
+
+/**
+ * Formats a roff macro with a single argument, which is quoted if it contains whitespace.
+ * @param macro The macro name
+ * @param arg The macro argument
+ * @returns The roff line
+ */
+function formatRoffMacro(macro: string, arg: string): string {
+  const escaped = escapeRoff(arg);
+  return `${macro} ${arg.match(/\s/) ? `"${escaped}"` : escaped}`;
+}
+
+/**
+ * Escapes backslashes and hyphens in a text, so it can be included in roff.
+ * @param text The text to be escaped
+ * @returns The escaped text
+ */
+function escapeRoff(text: string): string {
+  return text.replace(/\\/g, '\\e').replace(/-/g, '\\-');
+}
+
+/**
+ * Formats an option's help entry using the HTML format.
+ * The option's link, if any, is turned into an anchor.
+ * @param context The help context
+ * @param option The option definition
+ * @returns The help entry
+ */
+function formatHtmlEntry(context: HelpContext, option: OpaqueOption): HtmlHelpEntry {
+  const names = formatNames(context, option, 0).map(formatHtml);
+  const param = formatHtml(formatParams(context, option)[0]);
+  let descr = formatHtml(formatDescription(context, option));
+  const link = option.link;
+  if (link) {
+    const href = escapeHtml(link.href);
+    descr = descr.replace(href, `<a href="${href}">${href}</a>`);
+  }
+  return [names.join(' '), param, descr];
+}
+
+/**
+ * Formats a help message from a list of HTML help entries.
+ * The entries are rendered as rows of a table.
+ * @param entries The help entries
+ * @param result The resulting message
+ * @returns The resulting message
+ */
+function formatHtmlEntries(
+  entries: ReadonlyArray<HtmlHelpEntry>,
+  result = new TextMessage(),
+): TextMessage {
+  result.push('<table>');
+  for (const entry of entries) {
+    result.push('<tr>' + entry.map((cell) => `<td>${cell}</td>`).join('') + '</tr>');
+  }
+  result.push('</table>');
+  return result;
+}
+
+/**
+ * Formats a help section to be included in the full help message, using the HTML format.
+ * @param groups The option groups
+ * @param context The help context
+ * @param section The help section
+ * @param progName The program name
+ * @param result The resulting message
+ */
+function formatHtmlSection(
+  groups: EntriesByGroup<HtmlHelpEntry>,
+  context: HelpContext,
+  section: HelpSection,
+  progName: string,
+  result: TextMessage,
+) {
+  /** @ignore */
+  function heading(title?: string) {
+    if (title) {
+      const str = formatText(title, section.style ?? textStyle, 0, 0, section.noWrap);
+      result.push(`<h2>${formatHtml(str)}</h2>`);
+    }
+  }
+  const textStyle = context[0].text;
+  if (section.type === 'commands') {
+    heading(section.title);
+    let prev = -1;
+    visitCommands(context, section.depth ?? Infinity, (option, level, parent, cmdContext) => {
+      if (level > prev) {
+        result.push('<ul>'); // nested list inside the parent's item
+      } else {
+        result.push('</li>');
+        for (; prev > level; --prev) {
+          result.push('</ul>', '</li>');
+        }
+      }
+      prev = level;
+      const names = new TerminalString();
+      formatUsageNames(parent, option, names);
+      const usage = cmdContext && formatHtml(formatUsage(cmdContext, { type: 'usage' }));
+      const descr = option.desc
+        ? '<br>' + formatHtml(formatText(option.desc, textStyle, 0, 0))
+        : '';
+      const code = [formatHtml(names), usage].filter((str) => str).join(' ');
+      result.push(`<li><code>${code}</code>${descr}`);
+    });
+    for (; prev >= 0; --prev) {
+      result.push('</li>', '</ul>');
+    }
+  } else if (section.type === 'groups') {
+    formatGroups(groups, section, (group, entries) => {
+      heading(group || section.title);
+      formatHtmlEntries(entries, result);
+    });
+  } else {
+    heading(section.title);
+    if (section.type === 'usage') {
+      const prog = progName && formatHtml(formatText(progName, textStyle, 0, 0, true));
+      const lines = getUsages(section).map((usage) => {
+        const line = formatHtml(formatUsage(context, usage));
+        return [prog, line].filter((str) => str).join(' ');
+      });
+      result.push(`<pre>${lines.join('\n')}</pre>`);
+    } else if (section.text) {
+      const text = formatText(section.text, textStyle, 0, 0, section.noWrap);
+      result.push(`<p>${formatHtml(text)}</p>`);
+    }
+  }
+}
+
+/**
+ * Formats a terminal string into HTML.
+ * SGR sequences are converted to spans with CSS classes, and line breaks to `<br>` elements.
+ * @param str The terminal string
+ * @returns The HTML text
+ */
+function formatHtml(str: TerminalString): string {
+  const strings: Array<string> = [];
+  str.indent = 0; // avoid cursor movement sequences
+  str.wrap(strings, 0, 0, true);
+  const attrs = new Map<string, string>();
+  let open = false;
+  let html = escapeHtml(strings.join('').replace(regexps.link, '')).replace(
+    regexps.style,
+    (seq) => {
+      const classes = getHtmlClasses(seq, attrs);
+      const close = open ? '</span>' : '';
+      open = !!classes;
+      return close + (classes && `<span class="${classes}">`);
+    },
+  );
+  if (open) {
+    html += '</span>';
+  }
+  return html.trim().replace(/\n/g, '<br>');
+}
+
+/**
+ * Gets the CSS classes that result from a series of SGR sequences.
+ * Colors are converted to classes with the corresponding 8-bit palette index (e.g., `fg-9`) or
+ * 24-bit hexadecimal value (e.g., `fg-rgb-ff8800`).
+ * @param seq The SGR sequences
+ * @param attrs The current attributes, by category (will be updated)
+ * @returns The CSS classes, separated by spaces
+ */
+function getHtmlClasses(seq: string, attrs: Map<string, string>): string {
+  // eslint-disable-next-line no-control-regex
+  for (const [, params] of seq.matchAll(/\x1b\[([\d;]*)m/g)) {
+    const codes = params.split(';').map(Number);
+    for (let i = 0; i < codes.length; ++i) {
+      const code = codes[i];
+      if (code === tf.clear) {
+        attrs.clear();
+      } else if (code === 38 || code === 48 || code === 58) {
+        const category = code === 38 ? 'fg' : code === 48 ? 'bg' : 'ul';
+        if (codes[i + 1] === 2) {
+          const rgb = codes.slice(i + 2, i + 5).map((c) => c.toString(16).padStart(2, '0'));
+          attrs.set(category, `${category}-rgb-${rgb.join('')}`);
+          i += 4; // skip 24-bit color
+        } else {
+          attrs.set(category, `${category}-${codes[i + 2]}`);
+          i += 2; // skip 8-bit color
+        }
+      } else if (code >= fg.black && code <= fg.white) {
+        attrs.set('fg', `fg-${code - fg.black}`);
+      } else if (code >= fg.brightBlack && code <= fg.brightWhite) {
+        attrs.set('fg', `fg-${code - fg.brightBlack + 8}`);
+      } else if (code >= bg.black && code <= bg.white) {
+        attrs.set('bg', `bg-${code - bg.black}`);
+      } else if (code >= bg.brightBlack && code <= bg.brightWhite) {
+        attrs.set('bg', `bg-${code - bg.brightBlack + 8}`);
+      } else if (code in htmlClasses) {
+        const [category, cls] = htmlClasses[code];
+        if (cls) {
+          attrs.set(category, cls);
+        } else {
+          attrs.delete(category);
+        }
+      }
+    }
+  }
+  return [...attrs.values()].join(' ');
+}
+
+/**
+ * Escapes HTML special characters in a text.
+ * @param text The text to be escaped
+ * @returns The escaped text
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => htmlEntities[char]);
+}
+
 /**
  * Formats a help section to be included in the full help message.
  * Options are rendered in the same order as was declared in the option definitions.
@@ -1208,7 +1804,7 @@ function formatAnsiSection(
   let breaks = section.breaks ?? (result.length ? 2 : 0);
   if (section.type === 'groups') {
     const { title, noWrap, style: sty } = section;
-    const headingStyle = sty ?? style(tf.bold);
+    const headingStyle = sty ?? context[5].heading ?? style(tf.bold);
     formatGroups(groups, section, (group, entries) => {
       const title2 = group || title;
       const heading = title2
@@ -1222,18 +1818,39 @@ function formatAnsiSection(
   } else {
     const { title, noWrap, style: sty } = section;
     if (title) {
-      result.push(formatText(title, sty ?? style(tf.bold), 0, breaks, noWrap));
+      result.push(
+        formatText(title, sty ?? context[5].heading ?? style(tf.bold), 0, breaks, noWrap),
+      );
       breaks = 2;
     }
     const textStyle = context[0].text;
     if (section.type === 'usage') {
-      let { indent } = section;
-      if (progName) {
-        result.push(formatText(progName, textStyle, indent, breaks, true));
-        indent = max(0, indent ?? 0) + progName.length + 1;
-        breaks = 0;
+      for (const usage of getUsages(section)) {
+        let { indent } = section;
+        if (progName) {
+          result.push(formatText(progName, textStyle, indent, breaks, true));
+          indent = max(0, indent ?? 0) + progName.length + 1;
+          breaks = 0;
+        }
+        result.push(formatUsage(context, usage, indent, breaks));
+        breaks = 1; // subsequent synopses start on a new line
       }
-      result.push(formatUsage(context, section, indent, breaks));
+    } else if (section.type === 'commands') {
+      const indent = max(0, section.indent ?? 0);
+      visitCommands(context, section.depth ?? Infinity, (option, level, parent, cmdContext) => {
+        const ind = indent + 2 * level;
+        const names = new TerminalString(ind, breaks).seq(textStyle);
+        formatUsageNames(parent, option, names);
+        result.push(names);
+        if (cmdContext) {
+          const len = names.lengths.reduce((acc, len) => acc + (len ? len + 1 : 0), 0);
+          result.push(formatUsage(cmdContext, { type: 'usage' }, ind + len));
+        }
+        if (option.desc) {
+          result.push(formatText(option.desc, textStyle, ind + 2, 1));
+        }
+        breaks = 1;
+      });
     } else {
       const { text, indent } = section;
       if (text) {
@@ -1243,6 +1860,61 @@ function formatAnsiSection(
   }
 }
 
+/**
+ * Visits the tree of nested commands to be included in a commands section, in depth-first order.
+ * The options of nested commands are normally resolved beforehand by the parser. Otherwise, an
+ * asynchronous options callback cannot be waited for, so the command is visited without a help
+ * context.
+ * @param context The help context
+ * @param depth The maximum depth of nested commands
+ * @param visitor The function to call for each command, with its nesting level, the help context
+ * of its parent and that of its own options (if they are known)
+ * @param level The current nesting level
+ * @param path The set of commands in the current path (to avoid cycles)
+ */
+function visitCommands(
+  context: HelpContext,
+  depth: number,
+  visitor: (option: OpaqueOption, level: number, parent: HelpContext, cmd?: HelpContext) => void,
+  level = 0,
+  path = new Set<OpaqueOption>(),
+) {
+  if (depth < 1) {
+    return;
+  }
+  const [styles, options, connectives, config, , theme, commands] = context;
+  for (const option of getValues(options)) {
+    if (option.type !== 'command' || option.hide) {
+      continue;
+    }
+    // do not destructure `options`, because the callback might need to use `this`
+    const resolved =
+      commands.get(option) ??
+      (typeof option.options === 'function' ? option.options() : option.options ?? {});
+    const pending = isThenable(resolved);
+    if (pending) {
+      resolved.then(undefined, () => {}); // avoid an unhandled rejection
+    }
+    const cmdContext: HelpContext | undefined = !pending
+      ? [
+          styles,
+          resolved as OpaqueOptions,
+          connectives,
+          config,
+          option.exclusive ?? [],
+          theme,
+          commands,
+        ]
+      : undefined;
+    visitor(option, level, context, cmdContext);
+    if (cmdContext && !path.has(option)) {
+      path.add(option);
+      visitCommands(cmdContext, depth - 1, visitor, level + 1, path);
+      path.delete(option);
+    }
+  }
+}
+
 /**
  * Formats a custom text to be included in a help section.
  * @param text The heading title or section text
@@ -1283,9 +1955,13 @@ function formatUsage(
   indent?: number,
   breaks?: number,
 ): TerminalString {
-  const [styles, options] = context;
+  const [styles, options, , , exclusive] = context;
   const result = new TerminalString(indent, breaks).seq(styles.text);
-  const { filter, exclude, required, requires, comment } = section;
+  const { filter, exclude, required, comment } = section;
+  const [requires, inferredGroups] = section.inferRequires
+    ? inferDependencies(options, section.requires)
+    : [section.requires, []];
+  const groups = [...exclusive, ...inferredGroups];
   const visited = new Set<string>(exclude && filter);
   const requiredKeys = new Set(required);
   const requiredBy = requires && getRequiredBy(requires);
@@ -1293,7 +1969,12 @@ function formatUsage(
   const keys = exclude ? allKeys : filter?.filter((key) => key in options) ?? allKeys;
   const count = result.count;
   for (const key of keys) {
-    formatUsageOption(context, key, result, visited, requiredKeys, requires, requiredBy);
+    const group = groups.find((group) => group.keys.includes(key));
+    if (group) {
+      formatUsageGroup(context, group, keys, result, visited);
+    } else {
+      formatUsageOption(context, key, result, visited, requiredKeys, requires, requiredBy);
+    }
   }
   if (comment) {
     result.split(comment);
@@ -1301,6 +1982,110 @@ function formatUsage(
   return result.count === count ? result.pop(count) : result.clear();
 }
 
+/**
+ * Infers option dependencies from the options' requirements.
+ * An option that requires the presence of other options depends on the first of them, whereas an
+ * option that requires the absence of another option forms an exclusive group with the latter.
+ * @param options The option definitions
+ * @param requires The map of option keys to required options, for non-inferable requirements
+ * @returns The map of option keys to required options, and the inferred exclusive groups
+ */
+function inferDependencies(
+  options: OpaqueOptions,
+  requires?: Readonly<Record<string, string>>,
+): [Record<string, string>, Array<ExclusiveGroup>] {
+  const result: Record<string, string> = { ...requires };
+  const groups: Array<ExclusiveGroup> = [];
+  for (const [key, option] of getEntries(options)) {
+    const targets: [Array<string>, Array<string>] = [[], []];
+    if (!option.requires || !inferRequirements(option.requires, false, targets)) {
+      continue; // fall back to the map entry, if any
+    }
+    const [present, absent] = targets;
+    const requiredKey = present.find((target) => target !== key && target in options);
+    if (requiredKey !== undefined) {
+      result[key] = requiredKey;
+    }
+    for (const target of absent) {
+      if (target !== key && target in options) {
+        groups.push({ keys: [key, target] });
+      }
+    }
+  }
+  return [result, groups];
+}
+
+/**
+ * Collects the options whose presence or absence is required by a requirement.
+ * @param requires The option requirements
+ * @param negate True if the requirements should be negated
+ * @param targets The keys of options required to be present and absent, respectively
+ * @returns True if the requirements could be inferred
+ */
+function inferRequirements(
+  requires: Requires,
+  negate: boolean,
+  targets: [Array<string>, Array<string>],
+): boolean {
+  /** @ignore */
+  function inferItems(items: ReadonlyArray<Requires>, and: boolean): boolean {
+    // a disjunction can only be inferred if it has a single item
+    return (
+      (and || items.length === 1) && items.every((item) => inferRequirements(item, negate, targets))
+    );
+  }
+  return visitRequirements(
+    requires,
+    (req) => !!targets[negate ? 1 : 0].push(req),
+    (req) => inferRequirements(req.item, !negate, targets),
+    (req) => inferItems(req.items, !negate),
+    (req) => inferItems(req.items, negate),
+    (req) => {
+      const entries = getEntries(req);
+      if (negate && entries.length > 1) {
+        return false; // disjunction of negated entries
+      }
+      return entries.every(([key, value]) => {
+        if (negate && value !== undefined && value !== null) {
+          return false; // the option may be either absent or have a different value
+        }
+        targets[(value === null) !== negate ? 1 : 0].push(key);
+        return true;
+      });
+    },
+    () => false,
+  );
+}
+
+/**
+ * Gets the usages to be rendered in a usage section, one for each synopsis definition.
+ * @param section The help section
+ * @returns The list of usages
+ */
+function getUsages(section: HelpUsage): Array<HelpUsage> {
+  return section.synopses?.map((synopsis) => ({ ...section, ...synopsis })) ?? [section];
+}
+
+/**
+ * Formats the synopses of a usage section as plain text.
+ * @param context The help context
+ * @param section The help section
+ * @param progName The program name
+ * @returns The list of synopsis names and usage texts
+ */
+function formatSynopses(
+  context: HelpContext,
+  section: HelpUsage,
+  progName: string,
+): Array<[name: string, usage: string]> {
+  return (section.synopses ?? []).map((synopsis) => {
+    const strings: Array<string> = [];
+    formatUsage(context, { ...section, ...synopsis }).wrap(strings, 0, 0, false);
+    const usage = strings.join('').replace(regexps.space, ' ').trim();
+    return [synopsis.name, [progName, usage].filter((str) => str).join(' ')];
+  });
+}
+
 /**
  * Gets an adjacency list from a set of requirements.
  * @param requires The map of option keys to required options
@@ -1347,7 +2132,7 @@ function formatUsageOption(
     // reset it so that remaining options in the chain can be considered optional
     preOrderFn?.(key === receivedKey ? undefined : receivedKey);
     formatUsageNames(context, option, result);
-    formatParam(option, styles, result);
+    formatParam(option, context, result);
     if (!required) {
       // process requiring options in my dependency group (if they have not already been visited)
       list?.forEach((key) => {
@@ -1368,7 +2153,7 @@ function formatUsageOption(
     return required;
   }
   visited.add(key);
-  const [styles, options] = context;
+  const [, options] = context;
   const option = options[key];
   if (!required && option.required) {
     required = true;
@@ -1397,6 +2182,38 @@ function formatUsageOption(
   return format(requiredKey, true);
 }
 
+/**
+ * Formats the options of an exclusive group to be included in the usage text.
+ * @param context The help context
+ * @param group The exclusive group
+ * @param keys The keys of the options to include
+ * @param result The resulting string
+ * @param visited The set of visited options
+ */
+function formatUsageGroup(
+  context: HelpContext,
+  group: ExclusiveGroup,
+  keys: ReadonlyArray<string>,
+  result: TerminalString,
+  visited: Set<string>,
+) {
+  const [, options, connectives] = context;
+  const members = group.keys.filter((key) => keys.includes(key) && !visited.has(key));
+  if (members.length) {
+    const count = result.count;
+    members.forEach((key, i) => {
+      visited.add(key);
+      if (i) {
+        result.word(connectives[ConnectiveWord.optionAlt]);
+      }
+      formatUsageNames(context, options[key], result);
+      formatParam(options[key], context, result);
+    });
+    const [open, close] = (group.kind ?? 'atMostOne') === 'atMostOne' ? '[]' : '()';
+    result.open(open, count).close(close);
+  }
+}
+
 /**
  * Formats an option's names to be included in the usage text.
  * @param context The help context
@@ -1423,10 +2240,11 @@ function formatUsageNames(context: HelpContext, option: OpaqueOption, result: Te
 /**
  * Formats an option's parameter to be included in the description or the usage text.
  * @param option The option definition
- * @param styles The set of styles
+ * @param context The help context
  * @param result The resulting string
  */
-function formatParam(option: OpaqueOption, styles: FormatStyles, result: TerminalString) {
+function formatParam(option: OpaqueOption, context: HelpContext, result: TerminalString) {
+  const [styles, , , , , theme] = context;
   const [min, max] = getParamCount(option);
   const ellipsis = max > 1 ? '...' : '';
   const equals = option.inline === 'always' ? '=' : '';
@@ -1438,12 +2256,24 @@ function formatParam(option: OpaqueOption, styles: FormatStyles, result: Termina
   if (example !== undefined) {
     let spec;
     const separator = option.separator;
+    if (isOpt.unit(option)) {
+      example = getUnitValues(option, example);
+    }
     if (separator) {
       const sep = typeof separator === 'string' ? separator : separator.source;
       example = (example as Array<unknown>).join(sep);
       spec = 's';
+    } else if (option.type === 'record') {
+      example = getRecordPairs(option, example as object);
+      spec = 's';
     } else {
-      spec = isOpt.bool(option) ? 'b' : isOpt.str(option) ? 's' : isOpt.num(option) ? 'n' : 'v';
+      spec = isOpt.bool(option)
+        ? 'b'
+        : isOpt.str(option)
+          ? 's'
+          : isOpt.num(option) || isOpt.unit(option)
+            ? 'n'
+            : 'v';
     }
     result.format(styles, equals + '%' + spec, { [spec]: example });
     if (ellipsis) {
@@ -1455,13 +2285,20 @@ function formatParam(option: OpaqueOption, styles: FormatStyles, result: Termina
     if (type === 'command') {
       param = '...';
     } else if (max) {
-      const param0 = option.paramName ?? (type === 'function' ? 'param' : type);
+      const param0 =
+        option.paramName ??
+        (type === 'function'
+          ? 'param'
+          : type === 'record'
+            ? `<key>${option.pairSeparator ?? '='}<value>`
+            : type);
       const param1 = equals + (param0.includes('<') ? param0 : `<${param0}>`) + ellipsis;
       param = min <= 0 ? `[${param1}]` : param1;
     }
   }
   if (param) {
-    result.style(option.styles?.param ?? styles.value, param, styles.text);
+    const sty = option.styles?.param ?? theme.options?.param ?? styles.value;
+    result.style(sty, param, styles.text);
   }
 }
 
@@ -1491,14 +2328,32 @@ function formatValue(
         ? ['b', 0]
         : typeof value === 'string'
           ? ['s', 1]
-          : typeof value === 'number'
+          : typeof value === 'number' || typeof value === 'bigint' || value instanceof Date
             ? ['n', 2]
-            : option.type === 'strings'
+            : isOpt.str(option) || option.type === 'record'
               ? ['s', 3, connectives[ConnectiveWord.stringSep]]
-              : option.type === 'numbers'
+              : isOpt.num(option) || isOpt.unit(option)
                 ? ['n', 4, connectives[ConnectiveWord.numberSep]]
                 : ['v', 5];
-  result.format(context[0], phrase, { [spec]: value }, { alt, sep });
+  const val =
+    option.type === 'record'
+      ? getRecordPairs(option, value as object)
+      : isOpt.unit(option) && spec === 'n'
+        ? getUnitValues(option, value)
+        : value;
+  result.format(context[0], phrase, { [spec]: val }, { alt, sep });
+}
+
+/**
+ * Gets the human-readable representation of the value(s) of an option with units.
+ * @param option The option definition
+ * @param value The option value
+ * @returns The string representation, or a list of representations for array values
+ */
+function getUnitValues(option: OpaqueOption, value: unknown): string | Array<string> {
+  return Array.isArray(value)
+    ? value.map((val) => getUnitString(option, val))
+    : getUnitString(option, value);
 }
 
 /**
@@ -1627,15 +2482,21 @@ function formatRequiredValue(
     const connective = negate
       ? connectives[ConnectiveWord.notEquals]
       : connectives[ConnectiveWord.equals];
+    const record = option.type === 'record';
     const [spec, sep] = isOpt.bool(option)
       ? ['b']
-      : isOpt.str(option)
+      : isOpt.str(option) || record
         ? ['s', connectives[ConnectiveWord.stringSep]]
-        : isOpt.num(option)
+        : isOpt.num(option) || isOpt.unit(option)
           ? ['n', connectives[ConnectiveWord.numberSep]]
           : 'v';
-    const phrase = isOpt.arr(option) ? `[%${spec}]` : `%${spec}`;
-    result.word(connective).format(styles, phrase, { [spec]: value }, { sep });
+    const phrase = isOpt.arr(option) || record ? `[%${spec}]` : `%${spec}`;
+    const val = record
+      ? getRecordPairs(option, value as object)
+      : isOpt.unit(option)
+        ? getUnitValues(option, value)
+        : value;
+    result.word(connective).format(styles, phrase, { [spec]: val }, { sep });
   }
 }
 
@@ -1,3 +1,4 @@
+export type * from './completion.js';
 export type * from './options.js';
 export type * from './utils.js';
 export type * from './validator.js';
@@ -5,7 +6,9 @@ export type * from './validator.js';
 export * from './enums.js';
 export * from './formatter.js';
 export * from './parser.js';
+export * from './schema.js';
 export * from './styles.js';
 
+export { generateCompletion, isCompletionShell } from './completion.js';
 export { req } from './options.js';
 export { OptionValidator } from './validator.js';
@@ -1,8 +1,9 @@
 //--------------------------------------------------------------------------------------------------
 // Imports
 //--------------------------------------------------------------------------------------------------
+import type { CompletionShell } from './completion.js';
 import type { FormatterConfig, HelpSections } from './formatter.js';
-import type { HelpMessage, Style } from './styles.js';
+import type { HelpMessage, Style, TextMessage } from './styles.js';
 import type { Resolve, URL, KeyHaving, Range } from './utils.js';
 
 //--------------------------------------------------------------------------------------------------
@@ -53,7 +54,9 @@ export const isOpt = {
    * @returns True if the option is array-valued
    */
   arr(option) {
-    return option.type === 'strings' || option.type === 'numbers';
+    return ['strings', 'numbers', 'bigints', 'durations', 'sizes', 'dates', 'paths'].includes(
+      option.type,
+    );
   },
   /**
    * Tests if an option has or throws a message.
@@ -61,7 +64,7 @@ export const isOpt = {
    * @returns True if the option is message-valued
    */
   msg(option) {
-    return option.type === 'help' || option.type === 'version';
+    return option.type === 'help' || option.type === 'version' || option.type === 'completion';
   },
   /**
    * Tests if an option has an unknown value.
@@ -85,7 +88,7 @@ export const isOpt = {
    * @returns True if the option is string-valued
    */
   str(option) {
-    return option.type === 'string' || option.type === 'strings';
+    return ['string', 'strings', 'path', 'paths'].includes(option.type);
   },
   /**
    * Tests if an option has number value(s).
@@ -93,10 +96,62 @@ export const isOpt = {
    * @returns True if the option is number-valued
    */
   num(option) {
-    return option.type === 'number' || option.type === 'numbers';
+    return ['number', 'numbers', 'count', 'bigint', 'bigints'].includes(option.type);
+  },
+  /**
+   * Tests if an option has value(s) with units, i.e., durations, sizes or dates.
+   * @param option The option definition
+   * @returns True if the option is unit-valued
+   */
+  unit(option) {
+    return ['duration', 'durations', 'size', 'sizes', 'date', 'dates'].includes(option.type);
+  },
+  /**
+   * Tests if an option has filesystem path value(s).
+   * @param option The option definition
+   * @returns True if the option is path-valued
+   */
+  path(option) {
+    return option.type === 'path' || option.type === 'paths';
   },
 } as const satisfies Record<string, (option: OpaqueOption) => boolean>;
 
+/**
+ * The units of duration values, in milliseconds, from largest to smallest.
+ */
+const durationUnits = {
+  w: 604800000,
+  d: 86400000,
+  h: 3600000,
+  m: 60000,
+  s: 1000,
+  ms: 1,
+} as const satisfies Record<string, number>;
+
+/**
+ * A regular expression to match dates in ISO format, with optional time and time zone offset.
+ * It captures the year, month and day.
+ */
+const isoDate =
+  /^(\d{4})(?:-(\d\d)(?:-(\d\d)(?:T\d\d:\d\d(?::\d\d(?:\.\d+)?)?(?:Z|[+-]\d\d:\d\d)?)?)?)?$/;
+
+/**
+ * The units of size values, in bytes, from largest to smallest.
+ */
+const sizeUnits: ReadonlyArray<[unit: string, factor: number]> = [
+  ['PiB', 2 ** 50],
+  ['PB', 1e15],
+  ['TiB', 2 ** 40],
+  ['TB', 1e12],
+  ['GiB', 2 ** 30],
+  ['GB', 1e9],
+  ['MiB', 2 ** 20],
+  ['MB', 1e6],
+  ['KiB', 2 ** 10],
+  ['kB', 1e3],
+  ['B', 1],
+];
+
 //--------------------------------------------------------------------------------------------------
 // Public types
 //--------------------------------------------------------------------------------------------------
@@ -147,7 +202,27 @@ export type RequiresExp = RequiresNot | RequiresAll | RequiresOne;
 /**
  * The type of an option value.
  */
-export type OptionValue = boolean | string | number | Array<string> | Array<number>;
+export type OptionValue =
+  | boolean
+  | string
+  | number
+  | bigint
+  | Date
+  | Array<string>
+  | Array<number>
+  | Array<bigint>
+  | Array<Date>
+  | RecordValue;
+
+/**
+ * A numeric range for bigint values. The bounds may be either numbers (e.g., `Infinity`) or bigints.
+ */
+export type BigIntRange = [min: number | bigint, max: number | bigint];
+
+/**
+ * The value of a record option, with either single or multiple values per key.
+ */
+export type RecordValue = Record<string, string | number | Array<string | number>>;
 
 /**
  * An object that maps option keys to required values.
@@ -262,8 +337,47 @@ export type ParseInfo<P> = {
    * The option parameter(s), or the parameters preceding the word being completed, if any.
    */
   param: P;
+  /**
+   * A snapshot of the sources of the previously parsed values.
+   */
+  sources: ValueSources;
+};
+
+/**
+ * The kind of source from which an option value was obtained.
+ */
+export type SourceKind = 'cli' | 'env' | 'config' | 'default' | 'fallback';
+
+/**
+ * Information about the source of an option value.
+ */
+export type ValueSource = {
+  /**
+   * The kind of source.
+   */
+  readonly kind: SourceKind;
+  /**
+   * The option name as specified on the command-line, the environment variable name, or the path
+   * and key in a configuration file. It will be undefined for default values.
+   */
+  readonly name?: string;
+  /**
+   * The index of the occurrence of the option name, or of the first option parameter.
+   * It will be undefined if the value does not come from the command-line.
+   */
+  readonly index?: number;
+  /**
+   * The sources of the values of a nested command, with indices relative to the enclosing
+   * command-line. It will be undefined if the option is not a command.
+   */
+  readonly nested?: ValueSources;
 };
 
+/**
+ * A collection of value sources, indexed by option key.
+ */
+export type ValueSources = Record<string, ValueSource>;
+
 /**
  * Information about word completion to be used by custom callbacks.
  * @template C The completion data type
@@ -330,6 +444,11 @@ export type WithBasic = {
    * A reference to an external resource.
    */
   readonly link?: URL;
+  /**
+   * True if the option names may be abbreviated on the command-line, as long as the abbreviation
+   * is a unique prefix of the names of options that may be abbreviated.
+   */
+  readonly abbreviate?: true;
 };
 
 /**
@@ -478,6 +597,63 @@ export type WithNumber = {
   readonly conv?: KeyHaving<Math, (x: number) => number>;
 };
 
+/**
+ * Defines attributes common to bigint-valued options.
+ */
+export type WithBigInt = {
+  /**
+   * The numeric range.
+   */
+  readonly range?: BigIntRange;
+  /**
+   * The kind of rounding to apply to fractional parameters. If not specified, such parameters
+   * are rejected.
+   */
+  readonly conv?: 'trunc' | 'floor' | 'ceil' | 'round';
+};
+
+/**
+ * Defines attributes common to date-valued options.
+ */
+export type WithDate = {
+  /**
+   * The date range, in milliseconds since the epoch (e.g., `[Date.parse('2000-01-01'), Infinity]`).
+   */
+  readonly range?: Range;
+};
+
+/**
+ * Defines attributes common to path-valued options.
+ */
+export type WithPath = {
+  /**
+   * True if the path must exist.
+   */
+  readonly exists?: true;
+  /**
+   * The kind of filesystem entry that the path must refer to. Implies `exists`.
+   */
+  readonly kind?: 'file' | 'directory';
+  /**
+   * True if the path must be readable by the current process. Implies `exists`.
+   */
+  readonly readable?: true;
+  /**
+   * True if the path must be writable by the current process. If the path does not exist (and
+   * `exists` is not set), then its parent directory must be writable instead.
+   */
+  readonly writable?: true;
+  /**
+   * True if the path should be resolved to an absolute path relative to the current working
+   * directory, or the base directory against which to resolve it.
+   */
+  readonly absolute?: true | string;
+  /**
+   * The list of allowed file extensions, including the leading dot (e.g., `['.json', '.tar.gz']`).
+   */
+  readonly extensions?: ReadonlyArray<string>;
+};
+
 /**
  * Defines attributes common to array-valued options.
  */
@@ -500,6 +676,23 @@ export type WithArray = {
   readonly limit?: number;
 };
 
+/**
+ * Defines attributes for the record option.
+ */
+export type WithRecord = {
+  /**
+   * The separator between the key and the value of a parameter. Defaults to '='.
+   */
+  readonly pairSeparator?: string;
+  /**
+   * The policy for keys that are specified more than once. Defaults to `'last'`.
+   * - `'error'` - raise an error
+   * - `'last'` - keep the last value
+   * - `'append'` - collect all values of a key in an array
+   */
+  readonly duplicates?: 'error' | 'last' | 'append';
+};
+
 /**
  * Defines miscellaneous attributes.
  */
@@ -511,6 +704,17 @@ export type WithMisc = {
   readonly envVar?: string;
 };
 
+/**
+ * Defines attributes for a string option that specifies a configuration file.
+ */
+export type WithConfig = {
+  /**
+   * True if the option value is the path of a configuration file to read from, for options that
+   * are not specified in the command-line or in environment variables.
+   */
+  readonly configFile?: true;
+};
+
 /**
  * Defines attributes common to the help and version options.
  */
@@ -565,6 +769,17 @@ export type WithVersion = {
   readonly resolve?: ResolveCallback;
 };
 
+/**
+ * Defines attributes for the completion option.
+ */
+export type WithCompletion = {
+  /**
+   * The shell for which the completion script should be generated, if the next argument is not the
+   * name of a shell. If not specified, it is inferred from the `SHELL` environment variable.
+   */
+  readonly shell?: CompletionShell;
+};
+
 /**
  * Defines attributes for the function option.
  */
@@ -610,6 +825,15 @@ export type WithCommand = {
    * If set, then eligible arguments that have this prefix will be considered a cluster.
    */
   readonly clusterPrefix?: string;
+  /**
+   * True if the first positional argument should end the processing of option names.
+   * If set, then all remaining arguments will be routed to the positional option verbatim.
+   */
+  readonly stopAtPositional?: boolean;
+  /**
+   * The exclusive groups of the command's options.
+   */
+  readonly exclusive?: ReadonlyArray<ExclusiveGroup>;
 };
 
 /**
@@ -636,6 +860,11 @@ export type VersionOption = WithType<'version'> &
   WithMessage &
   (WithVerInfo | WithResolve);
 
+/**
+ * An option that throws a shell completion script.
+ */
+export type CompletionOption = WithType<'completion'> & WithBasic & WithCompletion & WithMessage;
+
 /**
  * An option that executes a callback function.
  */
@@ -667,6 +896,18 @@ export type FlagOption = WithType<'flag'> &
   WithValue<boolean> &
   (WithDefault | WithRequired);
 
+/**
+ * An option that has a number value and is incremented every time it is specified (or reset to
+ * zero if negated).
+ */
+export type CountOption = WithType<'count'> &
+  WithBasic &
+  WithMisc &
+  WithFlag &
+  WithNumber &
+  WithValue<number> &
+  (WithDefault | WithRequired);
+
 /**
  * An option that has a boolean value (accepts a single boolean parameter).
  */
@@ -686,6 +927,7 @@ export type BooleanOption = WithType<'boolean'> &
 export type StringOption = WithType<'string'> &
   WithBasic &
   WithMisc &
+  WithConfig &
   WithString &
   WithParam &
   WithValue<string> &
@@ -744,26 +986,218 @@ export type NumbersOption = WithType<'numbers'> &
   (WithAppend | WithParse) &
   (WithEnums | WithRange);
 
+/**
+ * An option that has a bigint value (accepts a single integer parameter).
+ */
+export type BigIntOption = WithType<'bigint'> &
+  WithBasic &
+  WithMisc &
+  WithBigInt &
+  WithParam &
+  WithValue<bigint> &
+  WithKnownValue<string, bigint> &
+  WithEnumerable<bigint> &
+  (WithDefault | WithRequired) &
+  (WithExample | WithParamName) &
+  (WithEnums | WithRange);
+
+/**
+ * An option that has a bigint array value (may accept single or multiple parameters).
+ */
+export type BigIntsOption = WithType<'bigints'> &
+  WithBasic &
+  WithMisc &
+  WithBigInt &
+  WithArray &
+  WithParam &
+  WithValue<Array<bigint>> &
+  WithKnownValue<Array<string>, Array<bigint>> &
+  WithEnumerable<bigint> &
+  (WithDefault | WithRequired) &
+  (WithExample | WithParamName) &
+  (WithAppend | WithParse) &
+  (WithEnums | WithRange);
+
+/**
+ * An option that has a duration value in milliseconds (accepts a single parameter with units).
+ */
+export type DurationOption = WithType<'duration'> &
+  WithBasic &
+  WithMisc &
+  WithNumber &
+  WithParam &
+  WithValue<number> &
+  WithKnownValue<string, number> &
+  (WithDefault | WithRequired) &
+  (WithExample | WithParamName);
+
+/**
+ * An option that has a size value in bytes (accepts a single parameter with units).
+ */
+export type SizeOption = WithType<'size'> &
+  WithBasic &
+  WithMisc &
+  WithNumber &
+  WithParam &
+  WithValue<number> &
+  WithKnownValue<string, number> &
+  (WithDefault | WithRequired) &
+  (WithExample | WithParamName);
+
+/**
+ * An option that has a date value (accepts a single date parameter).
+ */
+export type DateOption = WithType<'date'> &
+  WithBasic &
+  WithMisc &
+  WithDate &
+  WithParam &
+  WithValue<Date> &
+  WithKnownValue<string, Date> &
+  (WithDefault | WithRequired) &
+  (WithExample | WithParamName);
+
+/**
+ * An option that has a duration array value (may accept single or multiple parameters).
+ */
+export type DurationsOption = WithType<'durations'> &
+  WithBasic &
+  WithMisc &
+  WithNumber &
+  WithArray &
+  WithParam &
+  WithValue<Array<number>> &
+  WithKnownValue<Array<string>, Array<number>> &
+  (WithDefault | WithRequired) &
+  (WithExample | WithParamName) &
+  (WithAppend | WithParse);
+
+/**
+ * An option that has a size array value (may accept single or multiple parameters).
+ */
+export type SizesOption = WithType<'sizes'> &
+  WithBasic &
+  WithMisc &
+  WithNumber &
+  WithArray &
+  WithParam &
+  WithValue<Array<number>> &
+  WithKnownValue<Array<string>, Array<number>> &
+  (WithDefault | WithRequired) &
+  (WithExample | WithParamName) &
+  (WithAppend | WithParse);
+
+/**
+ * An option that has a date array value (may accept single or multiple parameters).
+ */
+export type DatesOption = WithType<'dates'> &
+  WithBasic &
+  WithMisc &
+  WithDate &
+  WithArray &
+  WithParam &
+  WithValue<Array<Date>> &
+  WithKnownValue<Array<string>, Array<Date>> &
+  (WithDefault | WithRequired) &
+  (WithExample | WithParamName) &
+  (WithAppend | WithParse);
+
+/**
+ * An option that has a filesystem path value (accepts a single parameter).
+ */
+export type PathOption = WithType<'path'> &
+  WithBasic &
+  WithMisc &
+  WithConfig &
+  WithPath &
+  WithParam &
+  WithValue<string> &
+  WithKnownValue<string, string> &
+  (WithDefault | WithRequired) &
+  (WithExample | WithParamName);
+
+/**
+ * An option that has a filesystem path array value (may accept single or multiple parameters).
+ */
+export type PathsOption = WithType<'paths'> &
+  WithBasic &
+  WithMisc &
+  WithPath &
+  WithArray &
+  WithParam &
+  WithValue<Array<string>> &
+  WithKnownValue<Array<string>, Array<string>> &
+  (WithDefault | WithRequired) &
+  (WithExample | WithParamName) &
+  (WithAppend | WithParse);
+
+/**
+ * An option that has a record value (may accept multiple key-value parameters).
+ */
+export type RecordOption = WithType<'record'> &
+  WithBasic &
+  WithMisc &
+  WithString &
+  WithNumber &
+  WithRecord &
+  WithParam &
+  WithValue<RecordValue> &
+  WithKnownValue<Array<string>, RecordValue> &
+  WithEnumerable<string> &
+  (WithDefault | WithRequired) &
+  (WithExample | WithParamName);
+
 /**
  * The public option types.
  */
 export type Option =
   | HelpOption
   | VersionOption
+  | CompletionOption
   | FunctionOption
   | CommandOption
   | FlagOption
+  | CountOption
   | BooleanOption
   | StringOption
   | NumberOption
   | StringsOption
-  | NumbersOption;
+  | NumbersOption
+  | RecordOption
+  | BigIntOption
+  | BigIntsOption
+  | DurationOption
+  | SizeOption
+  | DateOption
+  | DurationsOption
+  | SizesOption
+  | DatesOption
+  | PathOption
+  | PathsOption;
 
 /**
  * A collection of public option definitions.
  */
 export type Options = Readonly<Record<string, Option>>;
 
+/**
+ * A group of options whose number of occurrences on the command-line is constrained.
+ * @template K The type of option keys
+ */
+export type ExclusiveGroup<K extends string = string> = {
+  /**
+   * The kind of constraint:
+   * - `atMostOne` - at most one of the options may be specified (the default)
+   * - `atLeastOne` - at least one of the options must be specified
+   * - `exactlyOne` - exactly one of the options must be specified
+   */
+  readonly kind?: 'atMostOne' | 'atLeastOne' | 'exactlyOne';
+  /**
+   * The keys of the options in the group.
+   */
+  readonly keys: ReadonlyArray<K>;
+};
+
 /**
  * A collection of option values.
  * @template T The type of the option definitions
@@ -781,14 +1215,27 @@ export type OptionValues<T extends Options = Options> = Resolve<{
 type OptionTypes =
   | 'help'
   | 'version'
+  | 'completion'
   | 'function'
   | 'command'
   | 'flag'
+  | 'count'
   | 'boolean'
   | 'string'
   | 'number'
   | 'strings'
-  | 'numbers';
+  | 'numbers'
+  | 'record'
+  | 'bigint'
+  | 'bigints'
+  | 'duration'
+  | 'size'
+  | 'date'
+  | 'durations'
+  | 'sizes'
+  | 'dates'
+  | 'path'
+  | 'paths';
 
 /**
  * An internal option definition.
@@ -802,15 +1249,36 @@ export type OpaqueOption = WithType<OptionTypes> &
   WithEnumerable<unknown> &
   WithHelp &
   WithVersion &
+  WithCompletion &
   WithMessage &
   WithFunction &
   WithCommand &
   WithFlag &
   WithBoolean &
   WithString &
-  WithNumber &
+  WithOpaqueNumber &
   WithArray &
-  WithMisc;
+  WithRecord &
+  WithPath &
+  WithMisc &
+  WithConfig;
+
+/**
+ * Defines the numeric attributes of internal option definitions, which are shared by number,
+ * bigint, duration, size and date options.
+ */
+type WithOpaqueNumber = {
+  /**
+   * @see WithNumber.range
+   * @see WithBigInt.range
+   */
+  readonly range?: BigIntRange;
+  /**
+   * @see WithNumber.conv
+   * @see WithBigInt.conv
+   */
+  readonly conv?: KeyHaving<Math, (x: number) => number>;
+};
 
 /**
  * A collection of internal option definitions.
@@ -996,6 +1464,20 @@ type EnumsDataType<T extends Option, D> = T extends { enums: ReadonlyArray<infer
  */
 type MessageDataType<T extends Option, M> = T extends { saveMessage: true } ? M | undefined : never;
 
+/**
+ * The data type of an option with a record value.
+ * @template T The option definition type
+ * @template V The data type of the record values
+ */
+type RecordDataType<
+  T extends Option,
+  V = T extends { duplicates: 'append' } ? Array<string | number> : string | number,
+> = T extends {
+  enums: ReadonlyArray<infer E extends string>;
+}
+  ? Partial<Record<E, V>>
+  : Record<string, V>;
+
 /**
  * The data type of an option value.
  * @template T The option definition type
@@ -1005,21 +1487,43 @@ type OptionDataType<T extends Option> =
     ? MessageDataType<T, HelpMessage>
     : T extends WithType<'version'>
       ? MessageDataType<T, string>
-      : T extends WithType<'function' | 'command'>
-        ? ExecDataType<T> | DefaultDataType<T>
-        : T extends WithType<'flag'>
-          ? boolean | DefaultDataType<T>
-          : T extends WithType<'boolean'>
-            ? EnumsDataType<T, boolean> | DefaultDataType<T>
-            : T extends WithType<'string'>
-              ? EnumsDataType<T, string> | DefaultDataType<T>
-              : T extends WithType<'number'>
-                ? EnumsDataType<T, number> | DefaultDataType<T>
-                : T extends WithType<'strings'>
-                  ? Array<EnumsDataType<T, string>> | DefaultDataType<T>
-                  : T extends WithType<'numbers'>
-                    ? Array<EnumsDataType<T, number>> | DefaultDataType<T>
-                    : never;
+      : T extends WithType<'completion'>
+        ? MessageDataType<T, TextMessage>
+        : T extends WithType<'function' | 'command'>
+          ? ExecDataType<T> | DefaultDataType<T>
+          : T extends WithType<'flag'>
+            ? boolean | DefaultDataType<T>
+            : T extends WithType<'count'>
+              ? number | DefaultDataType<T>
+              : T extends WithType<'boolean'>
+                ? EnumsDataType<T, boolean> | DefaultDataType<T>
+                : T extends WithType<'string'>
+                  ? EnumsDataType<T, string> | DefaultDataType<T>
+                  : T extends WithType<'number'>
+                    ? EnumsDataType<T, number> | DefaultDataType<T>
+                    : T extends WithType<'strings'>
+                      ? Array<EnumsDataType<T, string>> | DefaultDataType<T>
+                      : T extends WithType<'numbers'>
+                        ? Array<EnumsDataType<T, number>> | DefaultDataType<T>
+                        : T extends WithType<'record'>
+                          ? RecordDataType<T> | DefaultDataType<T>
+                          : T extends WithType<'bigint'>
+                            ? EnumsDataType<T, bigint> | DefaultDataType<T>
+                            : T extends WithType<'bigints'>
+                              ? Array<EnumsDataType<T, bigint>> | DefaultDataType<T>
+                              : T extends WithType<'duration' | 'size'>
+                                ? number | DefaultDataType<T>
+                                : T extends WithType<'date'>
+                                  ? Date | DefaultDataType<T>
+                                  : T extends WithType<'durations' | 'sizes'>
+                                    ? Array<number> | DefaultDataType<T>
+                                    : T extends WithType<'dates'>
+                                      ? Array<Date> | DefaultDataType<T>
+                                      : T extends WithType<'path'>
+                                        ? string | DefaultDataType<T>
+                                        : T extends WithType<'paths'>
+                                          ? Array<string> | DefaultDataType<T>
+                                          : never;
 
 //--------------------------------------------------------------------------------------------------
 // Functions
@@ -1048,18 +1552,169 @@ export function getOptionNames(option: OpaqueOption): Array<string> {
  * @internal
  */
 export function getParamCount(option: OpaqueOption): Range {
-  if (['help', 'version', 'command', 'flag'].includes(option.type)) {
+  if (['help', 'version', 'completion', 'command', 'flag', 'count'].includes(option.type)) {
     return [0, 0];
   }
   if (option.type !== 'function') {
     const min = option.fallback !== undefined ? 0 : 1;
-    const max = option.separator || !isOpt.arr(option) ? 1 : Infinity;
+    const max = option.type === 'record' || (isOpt.arr(option) && !option.separator) ? Infinity : 1;
     return [min, max];
   }
   const count = option.paramCount ?? 0;
   return typeof count === 'object' ? count : count < 0 ? [0, Infinity] : [count, count];
 }
 
+/**
+ * Gets the known words of an option parameter, i.e., either the enumerated values or the truth and
+ * falsity names.
+ * @param option The option definition
+ * @returns The parameter words
+ * @internal
+ */
+export function getParamWords(option: OpaqueOption): Array<string> {
+  if (option.type === 'record') {
+    const sep = option.pairSeparator ?? '=';
+    return option.enums?.map((key) => `${key}${sep}`) ?? [];
+  }
+  return isOpt.bool(option)
+    ? [...(option.truthNames ?? []), ...(option.falsityNames ?? [])]
+    : option.enums?.map((val) => `${val}`) ?? [];
+}
+
+/**
+ * Gets the key-value parameters that correspond to the value of a record option.
+ * @param option The option definition
+ * @param value The option value
+ * @returns The list of key-value parameters
+ * @internal
+ */
+export function getRecordPairs(option: OpaqueOption, value: object): Array<string> {
+  const sep = option.pairSeparator ?? '=';
+  return Object.entries(value).flatMap(([key, val]) =>
+    (Array.isArray(val) ? val : [val]).map((val) => `${key}${sep}${val}`),
+  );
+}
+
+/**
+ * Parses the parameter of a bigint option. Integers are accepted in any notation supported by the
+ * `BigInt` function (e.g., decimal or hexadecimal). Fractional decimals are accepted only if the
+ * option has a rounding conversion, in which case they are rounded like the respective `Math`
+ * function, without loss of precision.
+ * @param option The option definition
+ * @param param The option parameter
+ * @returns The parsed value, or undefined if the parameter is invalid
+ * @internal
+ */
+export function parseBigIntValue(option: OpaqueOption, param: string): bigint | undefined {
+  const str = param.trim();
+  if (str.match(/^[+-]?(\d+|0x[\da-f]+|0o[0-7]+|0b[01]+)$/i)) {
+    return str.startsWith('-') ? -BigInt(str.slice(1)) : BigInt(str.replace(/^\+/, ''));
+  }
+  const [, sign, int, frac] = str.match(/^([+-]?)(\d*)\.(\d+)$/) ?? [];
+  const conv = option.conv;
+  if (frac === undefined || !['trunc', 'floor', 'ceil', 'round'].includes(conv ?? '')) {
+    return undefined;
+  }
+  const neg = sign === '-';
+  const nonzero = /[1-9]/.test(frac);
+  // whether the magnitude should be rounded up
+  const up =
+    conv === 'ceil'
+      ? !neg && nonzero
+      : conv === 'floor'
+        ? neg && nonzero
+        : conv === 'round'
+          ? frac[0] > '5' || (frac[0] === '5' && (!neg || /[1-9]/.test(frac.slice(1))))
+          : false;
+  const result = BigInt(int || '0') + (up ? 1n : 0n);
+  return neg ? -result : result;
+}
+
+/**
+ * Parses the parameter of an option with units (i.e., a duration, size or date).
+ * Durations are converted to milliseconds and sizes to bytes. A parameter without units is a
+ * decimal number interpreted in these base units. In either form, the parameter may be preceded by
+ * a sign. Dates must be in ISO format, and are parsed by the `Date` constructor.
+ * @param option The option definition
+ * @param param The option parameter
+ * @returns The parsed value, which is `NaN` or an invalid date if the parameter is invalid
+ * @internal
+ */
+export function parseUnitValue(option: OpaqueOption, param: string): number | Date {
+  if (option.type === 'date' || option.type === 'dates') {
+    const [, year, month = '01', day = '01'] = param.match(isoDate) ?? [];
+    if (year === undefined) {
+      return new Date(NaN);
+    }
+    // days that do not exist in a month would otherwise overflow to the next month
+    const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+    const valid =
+      date.getUTCFullYear() === Number(year) &&
+      date.getUTCMonth() === Number(month) - 1 &&
+      date.getUTCDate() === Number(day);
+    return new Date(valid ? param : NaN);
+  }
+  // amounts and units may be separated by a single space, as may the components of a duration
+  const [, sign, str] = param.trim().match(/^([+-]?)(.*)$/) ?? [];
+  let result = NaN;
+  if (str?.match(/^\d*\.?\d+$/)) {
+    result = Number(str);
+  } else if (option.type === 'size' || option.type === 'sizes') {
+    const [, amount, unit] = str?.match(/^(\d*\.?\d+) ?([a-z]+)$/i) ?? [];
+    const factor = sizeUnits.find(([name]) => name.toLowerCase() === unit?.toLowerCase())?.[1];
+    result = factor ? Number(amount) * factor : NaN;
+  } else if (str?.match(/^(\d*\.?\d+ ?(ms|[wdhms]) ?)+$/)) {
+    result = 0;
+    for (const [, amount, unit] of str.matchAll(/(\d*\.?\d+) ?(ms|[wdhms])/g)) {
+      result += Number(amount) * durationUnits[unit as keyof typeof durationUnits];
+    }
+  }
+  // very long amounts would overflow to infinity
+  return Number.isFinite(result) ? (sign === '-' && result ? -result : result) : NaN;
+}
+
+/**
+ * Gets the human-readable representation of a value of an option with units (i.e., a duration,
+ * size or date). Numbers are represented with the largest units that divide them evenly, while
+ * dates (or timestamps) are represented in ISO format (without the time, if it is midnight UTC).
+ * @param option The option definition
+ * @param value The option value
+ * @returns The string representation
+ * @internal
+ */
+export function getUnitString(option: OpaqueOption, value: unknown): string {
+  const num = Number(value); // dates are converted to timestamps
+  if (!Number.isFinite(num)) {
+    return `${value}`;
+  }
+  if (option.type === 'date' || option.type === 'dates') {
+    return new Date(num)
+      .toISOString()
+      .replace(/T00:00:00\.000Z$/, '')
+      .replace(/\.000Z$/, 'Z');
+  }
+  if (num < 0) {
+    return '-' + getUnitString(option, -num); // the sign applies to the whole value
+  }
+  const size = option.type === 'size' || option.type === 'sizes';
+  if (!Number.isInteger(num) || !num) {
+    return `${num}${size ? 'B' : 'ms'}`;
+  }
+  if (size) {
+    const [unit, factor] = sizeUnits.find(([, factor]) => num % factor === 0) ?? ['B', 1];
+    return `${num / factor}${unit}`;
+  }
+  let rest = num;
+  let result = '';
+  for (const [unit, factor] of Object.entries(durationUnits)) {
+    if (rest >= factor) {
+      result += `${Math.floor(rest / factor)}${unit}`;
+      rest %= factor;
+    }
+  }
+  return result;
+}
+
 /**
  * Visits an option's requirements, executing a callback according to the type of the requirement.
  * @param requires The option requirements
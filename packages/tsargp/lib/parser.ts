@@ -1,6 +1,7 @@
 //--------------------------------------------------------------------------------------------------
 // Imports
 //--------------------------------------------------------------------------------------------------
+import type { Dirent, PathLike, Stats } from 'fs';
 import type { HelpSections } from './formatter.js';
 import type {
   Options,
@@ -13,8 +14,11 @@ import type {
   ResolveCallback,
   DefaultCallback,
   RequiresCallback,
+  RecordValue,
+  ExclusiveGroup,
+  ValueSources,
 } from './options.js';
-import type { Range } from './utils.js';
+import type { Range, Resumable } from './utils.js';
 import type {
   OptionInfo,
   ValidatorConfig,
@@ -22,9 +26,19 @@ import type {
   ValidationResult,
 } from './validator.js';
 
+import { buildCompletion, getCompletionShells, isCompletionShell } from './completion.js';
 import { ConnectiveWord, ErrorItem } from './enums.js';
 import { createFormatter, isHelpFormat } from './formatter.js';
-import { isOpt, getParamCount, visitRequirements } from './options.js';
+import {
+  isOpt,
+  getParamCount,
+  getParamWords,
+  getRecordPairs,
+  getUnitString,
+  parseBigIntValue,
+  parseUnitValue,
+  visitRequirements,
+} from './options.js';
 import { format, HelpMessage, WarnMessage, TextMessage, TerminalString } from './styles.js';
 import {
   areEqual,
@@ -36,20 +50,11 @@ import {
   getEnv,
   getEntries,
   getKeys,
-  mergeValues,
+  getValues,
+  runAsync,
+  runSync,
 } from './utils.js';
-import { OptionValidator, defaultConfig } from './validator.js';
-
-//--------------------------------------------------------------------------------------------------
-// Constants
-//--------------------------------------------------------------------------------------------------
-/**
- * The default help sections.
- */
-const defaultSections: HelpSections = [
-  { type: 'usage', title: 'Usage:', indent: 2 },
-  { type: 'groups', title: 'Options:' },
-];
+import { OptionValidator, resolveConfig } from './validator.js';
 
 //--------------------------------------------------------------------------------------------------
 // Public types
@@ -71,6 +76,51 @@ export type ParsingFlags = {
    * If set, then eligible arguments that have this prefix will be considered a cluster.
    */
   readonly clusterPrefix?: string;
+  /**
+   * True if response files should be expanded.
+   * If set, then arguments of the form `@path` will be replaced by the arguments contained in the
+   * corresponding file, which may in turn reference other response files.
+   */
+  readonly responseFiles?: boolean;
+  /**
+   * The path of a configuration file to read from, for options that are not specified in the
+   * command-line or in environment variables.
+   * It is ignored if there is an option with the `configFile` attribute that has a value.
+   */
+  readonly configFile?: string;
+  /**
+   * True if the sources of option values should be included in the parsing result.
+   */
+  readonly trackSources?: boolean;
+  /**
+   * True if the names of all options may be abbreviated, including those of nested commands.
+   * If set, then an argument that is a unique prefix of option names will resolve to that option.
+   */
+  readonly abbreviate?: boolean;
+  /**
+   * True if unknown arguments should be collected in the parsing result, instead of raising an
+   * error. This only applies when there is no positional option.
+   */
+  readonly passThrough?: boolean;
+  /**
+   * True if the first positional argument should end the processing of option names.
+   * If set, then all remaining arguments will be routed to the positional option verbatim.
+   */
+  readonly stopAtPositional?: boolean;
+};
+
+/**
+ * Information about an unknown argument.
+ */
+export type UnknownArg = {
+  /**
+   * The argument index in the command-line, after the expansion of response files.
+   */
+  readonly index: number;
+  /**
+   * The argument.
+   */
+  readonly arg: string;
 };
 
 /**
@@ -81,6 +131,14 @@ export type ParsingResult = {
    * The warnings generated by the parser, if any.
    */
   readonly warning?: WarnMessage;
+  /**
+   * The sources of option values, if requested.
+   */
+  readonly sources?: ValueSources;
+  /**
+   * The unknown arguments, if pass-through was requested.
+   */
+  readonly unknown?: Array<UnknownArg>;
 };
 
 /**
@@ -101,10 +159,51 @@ type ParseContext = [
   specifiedKeys: Set<string>,
   completing: boolean,
   warning: WarnMessage,
+  state: ParseState,
   progName?: string,
   clusterPrefix?: string,
 ];
 
+/**
+ * The parsing state and flags of a parsing context.
+ */
+type ParseState = {
+  /**
+   * The sources of option values.
+   */
+  readonly sources: ValueSources;
+  /**
+   * The configuration file path, if any.
+   */
+  readonly configFile?: string;
+  /**
+   * True if the names of all options may be abbreviated.
+   */
+  readonly abbreviate?: boolean;
+  /**
+   * The list of unknown arguments, if they should be collected.
+   */
+  readonly unknown?: Array<UnknownArg>;
+  /**
+   * True if the first positional argument should end the processing of option names.
+   */
+  readonly stopAtPositional?: boolean;
+  /**
+   * True if parsing synchronously.
+   */
+  readonly sync?: boolean;
+};
+
+/**
+ * The option values read from a configuration file.
+ */
+type ConfigRecord = Record<string, unknown>;
+
+/**
+ * Information about a configuration file.
+ */
+type ConfigInfo = [path: string, record: ConfigRecord];
+
 /**
  * Information about the current argument sequence.
  */
@@ -128,7 +227,17 @@ type RequireItemFn<T> = (
   error: TerminalString,
   negate: boolean,
   invert: boolean,
-) => boolean | Promise<boolean>;
+) => boolean | Resumable<boolean>;
+
+/**
+ * The Node.js modules used for file access.
+ */
+type FileModules = [fs: typeof import('fs'), path: typeof import('path')];
+
+/**
+ * The process object, with the method to obtain built-in modules (Node.js 20.16 or 22.3 onward).
+ */
+type BuiltinProcess = typeof process & { getBuiltinModule?(id: string): unknown };
 
 //--------------------------------------------------------------------------------------------------
 // Classes
@@ -144,10 +253,15 @@ export class ArgumentParser<T extends Options = Options> {
    * Creates an argument parser based on a set of option definitions.
    * @param options The option definitions
    * @param config The validator configuration
+   * @param exclusive The exclusive groups
    */
-  constructor(options: T, config: ValidatorConfig = {}) {
-    const concreteConfig = mergeValues(defaultConfig, config);
-    this.validator = new OptionValidator(options as OpaqueOptions, concreteConfig);
+  constructor(
+    options: T,
+    config: ValidatorConfig = {},
+    exclusive: ReadonlyArray<ExclusiveGroup<keyof T & string>> = [],
+  ) {
+    const concreteConfig = resolveConfig(config);
+    this.validator = new OptionValidator(options as OpaqueOptions, concreteConfig, exclusive);
   }
 
   /**
@@ -179,38 +293,103 @@ export class ArgumentParser<T extends Options = Options> {
    * @param flags The parsing flags
    * @returns The parsing result
    */
-  async parseInto(
+  parseInto(
     values: OptionValues<T>,
-    cmdLine = getEnv('COMP_LINE') ?? getEnv('BUFFER') ?? process?.argv.slice(2) ?? [],
+    cmdLine?: CommandLine,
     flags?: ParsingFlags,
   ): Promise<ParsingResult> {
-    const compIndex =
-      flags?.compIndex ??
-      (Number(getEnv('COMP_POINT') ?? getEnv('CURSOR')) || getEnv('BUFFER')?.length);
-    const args = typeof cmdLine === 'string' ? getArgs(cmdLine, compIndex) : cmdLine;
-    const context = createContext(
-      this.validator,
-      values,
-      args,
-      !!compIndex,
-      flags?.progName,
-      flags?.clusterPrefix,
-    );
-    await parseArgs(context);
-    const warning = context[5];
-    return warning.length ? { warning } : {};
+    return runAsync(parseCommandLine(this.validator, values, false, cmdLine, flags));
+  }
+
+  /**
+   * Parses command-line arguments into option values, synchronously.
+   * @param cmdLine The command line or arguments
+   * @param flags The parsing flags
+   * @returns The options' values
+   * @throws If an option callback returns a promise
+   */
+  parseSync(cmdLine?: CommandLine, flags?: ParsingFlags): OptionValues<T> {
+    const values = {} as OptionValues<T>;
+    this.parseIntoSync(values, cmdLine, flags);
+    return values;
+  }
+
+  /**
+   * Parses command-line arguments into option values, synchronously.
+   * @param values The options' values to parse into
+   * @param cmdLine The command line or arguments
+   * @param flags The parsing flags
+   * @returns The parsing result
+   * @throws If an option callback returns a promise
+   */
+  parseIntoSync(
+    values: OptionValues<T>,
+    cmdLine?: CommandLine,
+    flags?: ParsingFlags,
+  ): ParsingResult {
+    return runSync(parseCommandLine(this.validator, values, true, cmdLine, flags));
   }
 }
 
 //--------------------------------------------------------------------------------------------------
 // Functions
 //--------------------------------------------------------------------------------------------------
+/**
+ * Parses command-line arguments into option values.
+ * @param validator The option validator
+ * @param values The options' values to parse into
+ * @param sync True if parsing synchronously
+ * @param cmdLine The command line or arguments
+ * @param flags The parsing flags
+ * @yields The values to be resolved
+ * @returns The parsing result
+ */
+function* parseCommandLine(
+  validator: OptionValidator,
+  values: OpaqueOptionValues,
+  sync: boolean,
+  cmdLine = getEnv('COMP_LINE') ?? getEnv('BUFFER') ?? process?.argv.slice(2) ?? [],
+  flags?: ParsingFlags,
+): Resumable<ParsingResult> {
+  const compIndex =
+    flags?.compIndex ??
+    (Number(getEnv('COMP_POINT') ?? getEnv('CURSOR')) || getEnv('BUFFER')?.length);
+  let args = typeof cmdLine === 'string' ? getArgs(cmdLine, compIndex) : cmdLine;
+  if (flags?.responseFiles) {
+    args = yield* expandResponseFiles(validator, args, !!compIndex, sync);
+  }
+  const state = {
+    configFile: flags?.configFile,
+    abbreviate: flags?.abbreviate,
+    unknown: flags?.passThrough ? [] : undefined,
+    stopAtPositional: flags?.stopAtPositional,
+    sync,
+  };
+  const context = createContext(
+    validator,
+    values,
+    args,
+    !!compIndex,
+    state,
+    flags?.progName,
+    flags?.clusterPrefix,
+  );
+  yield* parseArgs(context);
+  const [, , , , , warning, { sources, unknown }] = context;
+  return {
+    ...(warning.length ? { warning } : {}),
+    ...(flags?.trackSources ? { sources } : {}),
+    ...(unknown ? { unknown } : {}),
+  };
+}
+
 /**
  * Initializes the command-line arguments for parsing.
  * @param validator The option validator
  * @param values The option values
  * @param args The command-line arguments
  * @param completing True if performing completion
+ * @param state The parsing state and flags, except the value sources
  * @param progName The program name, if any
  * @param clusterPrefix The cluster prefix, if any
  * @returns The parsing context
@@ -220,6 +399,7 @@ function createContext(
   values: OpaqueOptionValues,
   args: Array<string>,
   completing: boolean,
+  state: Omit<ParseState, 'sources'>,
   progName = process?.argv[1].split(/[\\/]/).at(-1),
   clusterPrefix?: string,
 ): ParseContext {
@@ -233,7 +413,116 @@ function createContext(
   }
   const specifiedKeys = new Set<string>();
   const warning = new WarnMessage();
-  return [validator, values, args, specifiedKeys, completing, warning, progName, clusterPrefix];
+  const sources: ValueSources = {};
+  return [
+    validator,
+    values,
+    args,
+    specifiedKeys,
+    completing,
+    warning,
+    { ...state, sources },
+    progName,
+    clusterPrefix,
+  ];
+}
+
+/**
+ * Expands response files in the command-line arguments.
+ * When completion is in effect, the last argument is not expanded and file errors are ignored.
+ * @param validator The option validator
+ * @param args The command-line arguments
+ * @param completing True if performing completion
+ * @param sync True if parsing synchronously
+ * @param dir The directory against which to resolve relative paths
+ * @param visited The paths of the response files being expanded
+ * @yields The values to be resolved
+ * @returns The expanded arguments
+ */
+function* expandResponseFiles(
+  validator: OptionValidator,
+  args: ReadonlyArray<string>,
+  completing: boolean,
+  sync: boolean,
+  dir = '',
+  visited: ReadonlyArray<string> = [],
+): Resumable<Array<string>> {
+  const result: Array<string> = [];
+  for (const [i, arg] of args.entries()) {
+    if (
+      arg.length < 2 ||
+      arg[0] !== '@' ||
+      (completing && !visited.length && i === args.length - 1)
+    ) {
+      result.push(arg);
+      continue;
+    }
+    const [, { dirname, resolve }] = yield* importModules(validator, sync);
+    const file = arg.slice(1);
+    const path = resolve(dir, file);
+    if (visited.includes(path)) {
+      if (completing) {
+        continue; // ignore circular references while completing
+      }
+      throw validator.error(ErrorItem.circularResponseFile, { s: file });
+    }
+    let data;
+    try {
+      data = yield* readFile(validator, path, sync);
+    } catch (err) {
+      if ((err as ErrnoException).code !== 'ENOENT') {
+        throw err;
+      }
+      if (completing) {
+        result.push(arg); // ignore missing files while completing
+        continue;
+      }
+      throw validator.error(ErrorItem.missingResponseFile, { s: file });
+    }
+    const fileArgs = getArgs('@ ' + data, NaN, true); // prepend a dummy command name
+    result.push(
+      ...(yield* expandResponseFiles(validator, fileArgs, completing, sync, dirname(path), [
+        ...visited,
+        path,
+      ])),
+    );
+  }
+  return result;
+}
+
+/**
+ * Imports the Node.js modules used for file access.
+ * When parsing synchronously, the modules are obtained from the built-in module registry.
+ * @param validator The option validator
+ * @param sync True if parsing synchronously
+ * @yields The values to be resolved
+ * @returns The imported modules
+ * @throws If parsing synchronously and the registry is not available
+ */
+function* importModules(validator: OptionValidator, sync: boolean): Resumable<FileModules> {
+  if (sync) {
+    const { getBuiltinModule }: BuiltinProcess = process;
+    if (!getBuiltinModule) {
+      throw validator.error(ErrorItem.missingBuiltinModules);
+    }
+    return [getBuiltinModule('fs'), getBuiltinModule('path')] as FileModules;
+  }
+  const modules = yield Promise.all([import('fs'), import('path')]);
+  return modules as FileModules;
+}
+
+/**
+ * Reads the contents of a text file.
+ * @param validator The option validator
+ * @param path The file path or URL
+ * @param sync True if parsing synchronously
+ * @yields The values to be resolved
+ * @returns The file contents
+ */
+function* readFile(validator: OptionValidator, path: PathLike, sync: boolean): Resumable<string> {
+  const [{ promises, readFileSync }] = yield* importModules(validator, sync);
+  const data = sync ? readFileSync(path) : ((yield promises.readFile(path)) as Buffer);
+  return data.toString();
 }
 
 //--------------------------------------------------------------------------------------------------
@@ -253,7 +542,7 @@ function parseCluster(context: ParseContext, index: number): boolean {
     const name = option.names?.find((name): name is string => !!name);
     return [key, option, name];
   }
-  const [validator, , args, , completing, , , prefix] = context;
+  const [validator, , args, , completing, , , , prefix] = context;
   const cluster = args[index++];
   if (prefix === undefined || !cluster.startsWith(prefix) || cluster.length === prefix.length) {
     return false;
@@ -287,9 +576,10 @@ function parseCluster(context: ParseContext, index: number): boolean {
 /**
  * Parses the command-line arguments.
  * @param context The parsing context
+ * @yields The values to be resolved
  */
-async function parseArgs(context: ParseContext) {
-  const [validator, values, args, specifiedKeys, completing, warning] = context;
+function* parseArgs(context: ParseContext): Resumable<void> {
+  const [validator, , args, specifiedKeys, completing, warning, { sources }] = context;
   let prev: ParseEntry = [-1];
   let paramCount: Range = [0, 0];
   let positional = false;
@@ -300,13 +590,17 @@ async function parseArgs(context: ParseContext) {
     if (isNew || !info) {
       if (prev[1]) {
         // process the previous sequence
-        const breakLoop = await handleNonNiladic(context, prev[1], i, args.slice(k, j));
+        const breakLoop = yield* handleNonNiladic(context, prev[1], i, args.slice(k, j));
         if (breakLoop) {
           checkRequirements = false;
           break; // finished
         }
       }
       if (!info) {
+        if (j < args.length) {
+          prev = [j]; // an unknown argument was collected
+          continue;
+        }
         break; // finished
       }
       prev = next;
@@ -343,9 +637,12 @@ async function parseArgs(context: ParseContext) {
         }
         specifiedKeys.add(key);
       }
+      if (!comp) {
+        sources[key] = { kind: 'cli', name, index: j };
+      }
       if (!max) {
         // comp === false
-        const [breakLoop, skipCount] = await handleNiladic(context, info, j, args.slice(j + 1));
+        const [breakLoop, skipCount] = yield* handleNiladic(context, info, j, args.slice(j + 1));
         if (breakLoop) {
           checkRequirements = false;
           break; // finished
@@ -360,7 +657,7 @@ async function parseArgs(context: ParseContext) {
           k = hasValue ? j : j + 1;
         } else {
           // option name with inline parameter
-          const breakLoop = await handleNonNiladic(context, info, j, [value]);
+          const breakLoop = yield* handleNonNiladic(context, info, j, [value]);
           if (breakLoop) {
             checkRequirements = false;
             break; // finished
@@ -376,14 +673,14 @@ async function parseArgs(context: ParseContext) {
       break; // finished
     }
     // comp === true
-    const words = await completeParameter(values, info, i, args.slice(k, j), value);
+    const words = yield* completeParameter(context, info, i, args.slice(k, j), value);
     if (!marker && ((j === k && positional) || j - k >= paramCount[0])) {
       words.push(...completeName(validator, value));
     }
     throw new TextMessage(...words);
   }
   if (checkRequirements) {
-    await checkRequired(context);
+    yield* checkRequired(context);
   }
 }
 
@@ -395,16 +692,22 @@ async function parseArgs(context: ParseContext) {
  * @returns The new parse entry
  */
 function findNext(context: ParseContext, prev: ParseEntry): ParseEntry {
-  const [validator, , args, , completing] = context;
-  const [index, info, prevVal, , marker] = prev;
+  const [validator, , args, , completing, , { unknown, stopAtPositional }] = context;
+  const [index, info, prevVal, , prevMarker] = prev;
   const inc = prevVal !== undefined ? 1 : 0;
   const positional = validator.positional;
+  // the remaining arguments are treated as if they came after a positional marker
+  const marker = prevMarker || (stopAtPositional && !!info && info === positional);
   const [min, max] = info ? getParamCount(info[2]) : [0, 0];
   for (let i = index + 1; i < args.length; ++i) {
     const arg = args[i];
     const comp = completing && i + 1 === args.length;
     if (!info || (!marker && i - index + inc > min)) {
-      const [name, value] = arg.split(/=(.*)/, 2);
+      let [name, value] = arg.split(/=(.*)/, 2);
+      // do not resolve the word being completed, nor a word that the option may take as parameter
+      if ((!comp || value !== undefined) && (!info || i - index + inc > max)) {
+        name = resolveName(context, name);
+      }
       const key = validator.names.get(name);
       if (key) {
         if (comp && value === undefined) {
@@ -428,6 +731,10 @@ function findNext(context: ParseContext, prev: ParseEntry): ParseEntry {
           if (completing) {
             continue; // ignore unknown options during completion
           }
+          if (unknown) {
+            unknown.push({ index: i, arg });
+            return [i];
+          }
           reportUnknownName(validator, name);
         }
         return [i, positional, arg, comp, false, true];
@@ -440,6 +747,26 @@ function findNext(context: ParseContext, prev: ParseEntry): ParseEntry {
   return [args.length];
 }
 
+/**
+ * Resolves an option name that may be abbreviated.
+ * @param context The parsing context
+ * @param name The option name as specified on the command-line
+ * @returns The resolved option name, or the specified name if it cannot be resolved
+ */
+function resolveName(context: ParseContext, name: string): string {
+  const [validator, , , , completing, , { abbreviate }] = context;
+  if (validator.names.has(name)) {
+    return name;
+  }
+  const names = validator.abbreviations(name, abbreviate);
+  const keys = new Set(names.map((name) => validator.names.get(name)));
+  if (keys.size > 1 && !completing) {
+    const sep = validator.config.connectives[ConnectiveWord.optionSep];
+    throw validator.error(ErrorItem.ambiguousOption, { o1: name, o2: names }, { sep });
+  }
+  return keys.size === 1 ? names[0] : name;
+}
+
 /**
  * Reports an error of unknown option name.
  * @param validator The option validator
@@ -465,34 +792,38 @@ function completeName(validator: OptionValidator, prefix?: string): Array<string
 
 /**
  * Completes an option parameter.
- * @param values The option values
+ * @param context The parsing context
  * @param info The option information
  * @param index The starting index of the argument sequence
  * @param param The preceding parameters, if any
  * @param comp The word being completed
+ * @yields The values to be resolved
  * @returns The completion words
  */
-async function completeParameter(
-  values: OpaqueOptionValues,
+function* completeParameter(
+  context: ParseContext,
   info: OptionInfo,
   index: number,
   param: Array<string>,
   comp = '',
-): Promise<Array<string>> {
+): Resumable<Array<string>> {
   const [, name, option] = info;
   let words: Array<string>;
   if (option.complete) {
+    const [validator, values, , , , , { sources, sync }] = context;
     try {
       // do not destructure `complete`, because the callback might need to use `this`
-      words = await option.complete({ values, index, name, param, comp });
+      const seq = { values, index, name, param, sources: { ...sources }, comp };
+      const result = option.complete(seq);
+      words = yield* validator.settle(name, result, sync);
     } catch (err) {
       // do not propagate errors during completion
       words = [];
     }
+  } else if (isOpt.path(option)) {
+    words = yield* completePath(context[0], option, comp, !!context[6].sync);
   } else {
-    words = isOpt.bool(option)
-      ? [...(option.truthNames ?? []), ...(option.falsityNames ?? [])]
-      : option.enums?.map((val) => `${val}`) ?? [];
+    words = getParamWords(option);
     if (comp) {
       words = words.filter((word) => word.startsWith(comp));
     }
@@ -500,6 +831,54 @@ async function completeParameter(
   return words;
 }
 
+/**
+ * Completes a parameter of a path option with the matching entries of the directory being listed.
+ * Subdirectories are always included (with a trailing slash), so that they may be navigated into.
+ * @param validator The option validator
+ * @param option The option definition
+ * @param comp The word being completed
+ * @param sync True if parsing synchronously
+ * @yields The values to be resolved
+ * @returns The completion words
+ */
+function* completePath(
+  validator: OptionValidator,
+  option: OpaqueOption,
+  comp: string,
+  sync: boolean,
+): Resumable<Array<string>> {
+  const [fs, { resolve }] = yield* importModules(validator, sync);
+  const { absolute, kind, extensions } = option;
+  const dir = comp.slice(0, comp.lastIndexOf('/') + 1);
+  const path = resolve(typeof absolute === 'string' ? absolute : '', dir || '.');
+  const opts = { withFileTypes: true } as const;
+  let entries: Array<Dirent>;
+  try {
+    entries = sync
+      ? fs.readdirSync(path, opts)
+      : ((yield fs.promises.readdir(path, opts)) as Array<Dirent>);
+  } catch {
+    return []; // do not propagate errors during completion
+  }
+  const prefix = comp.slice(dir.length);
+  const words: Array<string> = [];
+  for (const entry of entries) {
+    const name = entry.name;
+    if (!name.startsWith(prefix) || (name[0] === '.' && prefix[0] !== '.')) {
+      continue; // hidden entries are only listed if the prefix starts with a dot
+    }
+    if (entry.isDirectory()) {
+      words.push(dir + name + '/');
+    } else if (
+      kind !== 'directory' &&
+      (!extensions || extensions.some((ext) => name.endsWith(ext)))
+    ) {
+      words.push(dir + name);
+    }
+  }
+  return words.sort();
+}
+
 //--------------------------------------------------------------------------------------------------
 // Value handling
 //--------------------------------------------------------------------------------------------------
@@ -509,14 +888,14 @@ async function completeParameter(
  * @param info The option information
  * @param index The starting index of the argument sequence
  * @param params The option parameter(s)
- * @returns A promise that must be awaited before continuing
+ * @yields The values to be resolved
  */
-async function parseParam(
+function* parseParam(
   context: ParseContext,
   info: OptionInfo,
   index: number,
   params: Array<string>,
-) {
+): Resumable<void> {
   /** @ignore */
   function norm<T>(val: T) {
     return validator.normalize(option, name, val);
@@ -532,54 +911,220 @@ async function parseParam(
     }
     return result;
   }
+  /** @ignore */
+  function unit(str: string): number | Date {
+    const result = parseUnitValue(option, str);
+    if (isNaN(Number(result))) {
+      const type = option.type;
+      const alt = type.startsWith('duration') ? 0 : type.startsWith('size') ? 1 : 2;
+      throw validator.error(ErrorItem.invalidUnitValue, { o: name, s: str }, { alt });
+    }
+    return result;
+  }
+  /** @ignore */
+  function bigint(str: string): bigint {
+    const result = parseBigIntValue(option, str);
+    if (result === undefined) {
+      throw validator.error(ErrorItem.invalidBigIntValue, { o: name, s: str });
+    }
+    return result;
+  }
+  const [validator, values, , , comp, , { sources, sync }] = context;
   const [key, name, option] = info;
   if (!params.length) {
-    return setValue(context, key, option, 'fallback');
+    sources[key] = { ...sources[key], kind: 'fallback' };
+    yield* setValue(context, key, option, 'fallback');
+    return;
   }
-  const [validator, values, , , comp] = context;
   const convertFn: (val: string) => unknown = isOpt.bool(option)
     ? bool
     : isOpt.str(option)
       ? (str: string) => str
-      : Number;
+      : isOpt.unit(option)
+        ? unit
+        : option.type === 'bigint' || option.type === 'bigints'
+          ? bigint
+          : Number;
   const lastParam = params[params.length - 1];
   let value;
-  if (isOpt.arr(option)) {
+  if (option.type === 'record') {
+    const seq = { values, index, name, param: params, sources: { ...sources }, comp };
+    // do not destructure `parse`, because the callback might need to use `this`
+    value = option.parse
+      ? yield* validator.settle(name, option.parse(seq), sync)
+      : parsePairs(validator, info, params, values[key] as RecordValue | undefined);
+  } else if (isOpt.arr(option)) {
     const separator = option.separator;
-    const param = separator ? lastParam.split(separator) : params;
+    const param = separator ? params.flatMap((param) => param.split(separator)) : params;
     // do not destructure `parse`, because the callback might need to use `this`
     if (option.parse) {
-      const seq = { values, index, name, param, comp };
-      value = ((await option.parse(seq)) as Array<unknown>).map(norm);
+      const seq = { values, index, name, param, sources: { ...sources }, comp };
+      value = ((yield* validator.settle(name, option.parse(seq), sync)) as Array<unknown>).map(
+        norm,
+      );
     } else {
       value = option.append ? (values[key] as Array<unknown>) ?? [] : [];
-      value.push(...param.map(convertFn).map(norm));
+      if (isOpt.path(option)) {
+        for (const path of param) {
+          value.push(norm(yield* checkPath(validator, info, path, !!sync)));
+        }
+      } else {
+        value.push(...param.map(convertFn).map(norm));
+      }
     }
   } else {
-    const seq = { values, index, name, param: lastParam, comp };
-    value = option.parse ? await option.parse(seq) : convertFn(lastParam);
+    const seq = { values, index, name, param: lastParam, sources: { ...sources }, comp };
+    value = option.parse
+      ? yield* validator.settle(name, option.parse(seq), sync)
+      : isOpt.path(option)
+        ? yield* checkPath(validator, info, lastParam, !!sync)
+        : convertFn(lastParam);
   }
   values[key] = norm(value);
 }
 
+/**
+ * Checks a parameter of a path option against the option's constraints.
+ * @param validator The option validator
+ * @param info The option information
+ * @param param The option parameter
+ * @param sync True if parsing synchronously
+ * @yields The values to be resolved
+ * @returns The path, resolved if the option requires an absolute path
+ */
+function* checkPath(
+  validator: OptionValidator,
+  info: OptionInfo,
+  param: string,
+  sync: boolean,
+): Resumable<string> {
+  const [, name, option] = info;
+  const { exists, kind, readable, writable, absolute, extensions } = option;
+  if (extensions && !extensions.some((ext) => param.endsWith(ext))) {
+    const args = { o: name, s1: param, s2: extensions };
+    const sep = validator.config.connectives[ConnectiveWord.stringSep];
+    throw validator.error(ErrorItem.invalidPathExtension, args, { sep });
+  }
+  if (!absolute && !exists && !kind && !readable && !writable) {
+    return param; // avoid importing modules
+  }
+  const [fs, { resolve, dirname }] = yield* importModules(validator, sync);
+  const path = absolute ? resolve(absolute === true ? '' : absolute, param) : param;
+  if (exists || kind || readable || writable) {
+    let stats: Stats;
+    try {
+      stats = sync ? fs.statSync(path) : ((yield fs.promises.stat(path)) as Stats);
+    } catch (err) {
+      const code = (err as ErrnoException).code;
+      if (code !== 'ENOENT' && code !== 'ENOTDIR') {
+        throw err;
+      }
+      if (exists || kind || readable) {
+        throw validator.error(ErrorItem.missingPath, { o: name, s: path });
+      }
+      // a writable path that does not exist yet must be creatable in its parent directory
+      if (!(yield* checkAccess(fs, dirname(path), fs.constants.W_OK, sync))) {
+        throw validator.error(ErrorItem.inaccessiblePath, { o: name, s: path }, { alt: 1 });
+      }
+      return path;
+    }
+    if (kind && (kind === 'file' ? !stats.isFile() : !stats.isDirectory())) {
+      const alt = kind === 'file' ? 0 : 1;
+      throw validator.error(ErrorItem.invalidPathKind, { o: name, s: path }, { alt });
+    }
+    const { R_OK, W_OK } = fs.constants;
+    const mode = (readable ? R_OK : 0) | (writable ? W_OK : 0);
+    if (mode && !(yield* checkAccess(fs, path, mode, sync))) {
+      const alt = !writable ? 0 : !readable ? 1 : 2;
+      throw validator.error(ErrorItem.inaccessiblePath, { o: name, s: path }, { alt });
+    }
+  }
+  return path;
+}
+
+/**
+ * Checks if the current process can access a filesystem entry.
+ * @param fs The file system module
+ * @param path The entry path
+ * @param mode The access mode
+ * @param sync True if checking synchronously
+ * @yields The values to be resolved
+ * @returns True if the entry is accessible
+ */
+function* checkAccess(
+  fs: FileModules[0],
+  path: string,
+  mode: number,
+  sync: boolean,
+): Resumable<boolean> {
+  try {
+    if (sync) {
+      fs.accessSync(path, mode);
+    } else {
+      yield fs.promises.access(path, mode);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parses the key-value parameters of a record option.
+ * @param validator The option validator
+ * @param info The option information
+ * @param params The option parameters
+ * @param prev The previous option value, if any
+ * @returns The record value, merged with the previous one
+ */
+function parsePairs(
+  validator: OptionValidator,
+  info: OptionInfo,
+  params: Array<string>,
+  prev?: RecordValue,
+): RecordValue {
+  const [, name, option] = info;
+  const sep = option.pairSeparator ?? '=';
+  const duplicates = option.duplicates ?? 'last';
+  // use a null prototype, so that keys like `__proto__` or `constructor` are treated as own keys
+  const result: RecordValue = Object.assign(Object.create(null), prev);
+  for (const param of params) {
+    const index = param.indexOf(sep);
+    if (index < 0) {
+      throw validator.error(ErrorItem.invalidRecordPair, { o: name, s1: param, s2: sep });
+    }
+    const key = param.slice(0, index);
+    const str = param.slice(index + sep.length);
+    const val = String(Number(str)) === str ? Number(str) : str; // only lossless conversions
+    const existing = Object.hasOwn(result, key) ? result[key] : undefined;
+    if (existing !== undefined && duplicates === 'error') {
+      throw validator.error(ErrorItem.duplicateRecordKey, { o: name, s: key });
+    }
+    result[key] =
+      duplicates === 'append' ? [...((existing as Array<string | number>) ?? []), val] : val;
+  }
+  return result;
+}
+
 /**
  * Sets the normalized value of an option.
  * @param context The parsing context
  * @param key The option key
  * @param option The option definition
  * @param prop The option property whose value is to be set
+ * @yields The values to be resolved
  */
-async function setValue(
+function* setValue(
   context: ParseContext,
   key: string,
   option: OpaqueOption,
   prop: 'default' | 'fallback',
-) {
+): Resumable<void> {
   /** @ignore */
   function norm<T>(val: T) {
     return validator.normalize(option, key, val);
   }
-  const [validator, values] = context;
+  const [validator, values, , , , , { sync }] = context;
   if (option[prop] === undefined) {
     values[key] = undefined;
     return;
@@ -587,7 +1132,11 @@ async function setValue(
   // do not destructure `prop`, because the callback might need to use `this`
   const resolved =
     typeof option[prop] === 'function'
-      ? await (option[prop] as DefaultCallback<unknown>)(values)
+      ? yield* validator.settle(
+          option.preferredName ?? '',
+          (option[prop] as DefaultCallback<unknown>)(values),
+          sync,
+        )
       : option[prop];
   values[key] =
     isOpt.ukn(option) || isOpt.bool(option)
@@ -606,14 +1155,15 @@ async function setValue(
  * @param info The option information
  * @param index The starting index of the argument sequence
  * @param params The option parameters, if any
+ * @yields The values to be resolved
  * @returns True if the parsing loop should be broken
  */
-async function handleNonNiladic(
+function* handleNonNiladic(
   context: ParseContext,
   info: OptionInfo,
   index: number,
   params: Array<string>,
-): Promise<boolean> {
+): Resumable<boolean> {
   const [, name, option] = info;
   // max is not needed here because either:
   // - the parser would have failed to find an option that starts a new sequence at max + 1; or
@@ -624,12 +1174,11 @@ async function handleNonNiladic(
   if (option.type === 'function') {
     // since we know this is a function option, we're deliberately reusing the niladic handling,
     // with params as the "rest", and ignoring the skip count
-    const [breakLoop] = await handleNiladic(context, info, index, params);
+    const [breakLoop] = yield* handleNiladic(context, info, index, params);
     return breakLoop;
   }
   try {
-    // use await here instead of return, in order to catch errors
-    await parseParam(context, info, index, params);
+    yield* parseParam(context, info, index, params);
   } catch (err) {
     // do not propagate errors during completion
     if (!context[4]) {
@@ -645,40 +1194,47 @@ async function handleNonNiladic(
  * @param info The option information
  * @param index The starting index of the argument sequence
  * @param rest The remaining command-line arguments
+ * @yields The values to be resolved
  * @returns [True if the parsing loop should be broken, number of additional processed arguments]
  */
-async function handleNiladic(
+function* handleNiladic(
   context: ParseContext,
   info: OptionInfo,
   index: number,
   rest: Array<string>,
-): Promise<[boolean, number]> {
-  const [, values, , , comp] = context;
+): Resumable<[boolean, number]> {
+  const [validator, values, , , comp] = context;
   const [key, name, option] = info;
   switch (option.type) {
     case 'flag': {
       values[key] = !option.negationNames?.includes(name);
       return [false, 0];
     }
+    case 'count': {
+      const count = option.negationNames?.includes(name) ? 0 : ((values[key] as number) ?? 0) + 1;
+      // do not check constraints during completion
+      values[key] = comp ? count : validator.normalize(option, name, count);
+      return [false, 0];
+    }
     case 'function': {
       const breakLoop = !!option.break && !comp;
       if (breakLoop) {
-        await checkRequired(context);
+        yield* checkRequired(context);
       }
-      const skipCount = await handleFunction(context, info, index, rest);
+      const skipCount = yield* handleFunction(context, info, index, rest);
       return [breakLoop, skipCount];
     }
     case 'command': {
       if (!comp) {
-        await checkRequired(context);
+        yield* checkRequired(context);
       }
-      await handleCommand(context, info, index, rest);
+      yield* handleCommand(context, info, index, rest);
       return [true, 0];
     }
     default: {
       // skip message-valued options during completion
       if (!comp) {
-        await handleMessage(context, info, rest);
+        yield* handleMessage(context, info, rest);
       }
       return [!comp, 0];
     }
@@ -691,20 +1247,23 @@ async function handleNiladic(
  * @param info The option information
  * @param index The starting index of the argument sequence
  * @param param The remaining command-line arguments
+ * @yields The values to be resolved
  * @returns The number of additional processed arguments
  */
-async function handleFunction(
+function* handleFunction(
   context: ParseContext,
   info: OptionInfo,
   index: number,
   param: Array<string>,
-): Promise<number> {
+): Resumable<number> {
   const [key, name, option] = info;
   if (option.exec) {
-    const [, values, , , comp] = context;
+    const [validator, values, , , comp, , { sources, sync }] = context;
     try {
       // do not destructure `exec`, because the callback might need to use `this`
-      values[key] = await option.exec({ values, index, name, param, comp });
+      const seq = { values, index, name, param, sources: { ...sources }, comp };
+      const result = option.exec(seq);
+      values[key] = yield* validator.settle(name, result, sync);
     } catch (err) {
       // do not propagate common errors during completion
       if (!comp || err instanceof TextMessage) {
@@ -721,29 +1280,75 @@ async function handleFunction(
  * @param info The option information
  * @param index The starting index of the argument sequence
  * @param rest The remaining command-line arguments
- * @returns The result of parsing the command arguments
+ * @yields The values to be resolved
  */
-async function handleCommand(
+function* handleCommand(
   context: ParseContext,
   info: OptionInfo,
   index: number,
   rest: Array<string>,
-) {
-  const [validator, values, , , comp, warning] = context;
+): Resumable<void> {
+  const [validator, values, , , comp, warning, { sources, abbreviate, unknown, sync }] = context;
   const [key, name, option] = info;
   // do not destructure `options`, because the callback might need to use `this`
   const cmdOptions =
-    typeof option.options === 'function' ? await option.options() : option.options ?? {};
-  const cmdValidator = new OptionValidator(cmdOptions as OpaqueOptions, validator.config);
+    typeof option.options === 'function'
+      ? yield* validator.settle(name, option.options(), sync)
+      : option.options ?? {};
+  const cmdValidator = new OptionValidator(
+    cmdOptions as OpaqueOptions,
+    validator.config,
+    option.exclusive,
+  );
   const param: OpaqueOptionValues = {};
-  const cmdContext = createContext(cmdValidator, param, rest, comp, name, option.clusterPrefix);
-  await parseArgs(cmdContext);
-  warning.push(...cmdContext[5]);
+  const cmdState = {
+    abbreviate,
+    unknown: unknown && [],
+    stopAtPositional: option.stopAtPositional,
+    sync,
+  };
+  const cmdContext = createContext(
+    cmdValidator,
+    param,
+    rest,
+    comp,
+    cmdState,
+    name,
+    option.clusterPrefix,
+  );
+  yield* parseArgs(cmdContext);
+  const [, , , , , cmdWarning, { sources: cmdSources, unknown: cmdUnknown }] = cmdContext;
+  warning.push(...cmdWarning);
+  // adjust the indices of unknown arguments to the enclosing command-line
+  for (const { index: i, arg } of cmdUnknown ?? []) {
+    unknown?.push({ index: index + i + 1, arg });
+  }
+  sources[key] = { ...sources[key], nested: adjustSources(cmdSources, index + 1) };
   // comp === false, otherwise completion will have taken place by now
   if (option.exec) {
     // do not destructure `exec`, because the callback might need to use `this`
-    values[key] = await option.exec({ values, index, name, param });
+    const result = option.exec({ values, index, name, param, sources: { ...sources } });
+    values[key] = yield* validator.settle(name, result, sync);
+  }
+}
+
+/**
+ * Adjusts the indices of the sources of a nested command to the enclosing command-line.
+ * @param sources The value sources of the nested command
+ * @param offset The index of the first argument of the nested command
+ * @returns The adjusted value sources
+ */
+function adjustSources(sources: ValueSources, offset: number): ValueSources {
+  const result: ValueSources = {};
+  for (const [key, source] of Object.entries(sources)) {
+    const { index, nested } = source;
+    result[key] = {
+      ...source,
+      ...(index !== undefined ? { index: offset + index } : {}),
+      ...(nested ? { nested: adjustSources(nested, offset) } : {}),
+    };
   }
+  return result;
 }
 
 /**
@@ -751,17 +1356,24 @@ async function handleCommand(
  * @param context The parsing context
  * @param info The option information
  * @param rest The remaining command-line arguments
+ * @yields The values to be resolved
  * @throws The help or version message
  */
-async function handleMessage(context: ParseContext, info: OptionInfo, rest: Array<string>) {
-  const [validator, values] = context;
-  const [key, , option] = info;
+function* handleMessage(
+  context: ParseContext,
+  info: OptionInfo,
+  rest: Array<string>,
+): Resumable<void> {
+  const [validator, values, , , , , { sync }] = context;
+  const [key, name, option] = info;
   const message =
     option.type === 'help'
-      ? await handleHelp(context, option, rest)
-      : option.resolve
-        ? await handleVersion(validator, option.resolve)
-        : option.version ?? '';
+      ? yield* handleHelp(context, option, rest)
+      : option.type === 'completion'
+        ? yield* handleCompletion(context, option, name, rest)
+        : option.resolve
+          ? yield* handleVersion(validator, option.resolve, !!sync)
+          : option.version ?? '';
   if (option.saveMessage) {
     values[key] = message;
   } else {
@@ -774,14 +1386,15 @@ async function handleMessage(context: ParseContext, info: OptionInfo, rest: Arra
  * @param context The parsing context
  * @param option The option definition
  * @param rest The remaining command-line arguments
+ * @yields The values to be resolved
  * @returns The help message
  */
-async function handleHelp(
+function* handleHelp(
   context: ParseContext,
   option: OpaqueOption,
   rest: Array<string>,
-): Promise<HelpMessage> {
-  let [validator, , , , , , progName] = context;
+): Resumable<HelpMessage> {
+  let [validator, , , , , , { sync }, progName] = context;
   if (option.useNested && rest.length) {
     const cmdOpt = findValue(
       validator.options,
@@ -790,12 +1403,14 @@ async function handleHelp(
     if (cmdOpt) {
       if (cmdOpt.options) {
         // do not destructure `options`, because the callback might need to use `this`
-        const resolved = (
-          typeof cmdOpt.options === 'function' ? await cmdOpt.options() : cmdOpt.options
-        ) as OpaqueOptions;
+        const options =
+          typeof cmdOpt.options === 'function'
+            ? yield* validator.settle(rest[0], cmdOpt.options(), sync)
+            : cmdOpt.options;
+        const resolved = options as OpaqueOptions;
         const helpOpt = findValue(resolved, (opt) => opt.type === 'help');
         if (helpOpt) {
-          validator = new OptionValidator(resolved, validator.config);
+          validator = new OptionValidator(resolved, validator.config, cmdOpt.exclusive);
           option = helpOpt;
           rest.splice(0, 1); // only if the command has help; otherwise, it may be an option filter
         }
@@ -811,30 +1426,109 @@ async function handleHelp(
   if (option.useFilter) {
     config.filter = rest;
   }
+  const { usage, groups } = validator.config.titles;
+  const sections: HelpSections = option.sections ?? [
+    { type: 'usage', title: usage, indent: 2 },
+    { type: 'groups', title: groups },
+  ];
+  for (const section of sections) {
+    if (section.type === 'commands') {
+      yield* resolveCommands(validator, validator.options, section.depth ?? Infinity, !!sync);
+    }
+  }
   const formatter = createFormatter(validator, config, format);
-  const sections = option.sections ?? defaultSections;
   return formatter.sections(sections, progName);
 }
 
+/**
+ * Resolves the options of nested commands (including those declared with a callback) up to a
+ * maximum depth, so that they can be rendered in a commands section. The resolved options are
+ * stored in the validator.
+ * @param validator The option validator
+ * @param options The option definitions
+ * @param depth The maximum depth of nested commands
+ * @param sync True if parsing synchronously
+ * @param visited The maximum depth at which each command has been visited
+ * @yields The values to be resolved
+ */
+function* resolveCommands(
+  validator: OptionValidator,
+  options: OpaqueOptions,
+  depth: number,
+  sync: boolean,
+  visited = new Map<OpaqueOption, number>(),
+): Resumable<void> {
+  for (const option of getValues(options)) {
+    if (option.type !== 'command' || option.hide || (visited.get(option) ?? 0) >= depth) {
+      continue;
+    }
+    visited.set(option, depth);
+    let cmdOptions = validator.commands.get(option);
+    if (!cmdOptions) {
+      // do not destructure `options`, because the callback might need to use `this`
+      const name = option.preferredName ?? '';
+      cmdOptions = (
+        typeof option.options === 'function'
+          ? yield* validator.settle(name, option.options(), sync)
+          : option.options ?? {}
+      ) as OpaqueOptions;
+      validator.commands.set(option, cmdOptions);
+    }
+    if (depth > 1) {
+      yield* resolveCommands(validator, cmdOptions, depth - 1, sync, visited);
+    }
+  }
+}
+
+/**
+ * Handles a completion option.
+ * @param context The parsing context
+ * @param option The option definition
+ * @param name The option name (as specified on the command-line)
+ * @param rest The remaining command-line arguments
+ * @yields The values to be resolved
+ * @returns The completion script
+ */
+function* handleCompletion(
+  context: ParseContext,
+  option: OpaqueOption,
+  name: string,
+  rest: Array<string>,
+): Resumable<TextMessage> {
+  const [validator, , , , , , { sync }, progName] = context;
+  const shell =
+    rest.length && isCompletionShell(rest[0])
+      ? rest.splice(0, 1)[0] // only if the shell is recognized; otherwise, fall back to the default
+      : option.shell ?? getEnv('SHELL')?.split(/[\\/]/).at(-1) ?? '';
+  if (!isCompletionShell(shell)) {
+    const args = { o: name, s1: shell, s2: getCompletionShells() };
+    const sep = validator.config.connectives[ConnectiveWord.stringSep];
+    throw validator.error(ErrorItem.enumsConstraintViolation, args, { alt: 0, sep });
+  }
+  return yield* buildCompletion(validator, shell, progName ?? '', sync);
+}
+
 /**
  * Resolve a package version using a module-resolve function.
  * @param validator The option validator
  * @param resolve The resolve callback
+ * @param sync True if parsing synchronously
+ * @yields The values to be resolved
  * @returns The version string
  */
-async function handleVersion(
+function* handleVersion(
   validator: OptionValidator,
   resolve: ResolveCallback,
-): Promise<string> {
-  const { promises } = await import('fs');
+  sync: boolean,
+): Resumable<string> {
   for (
     let path = './package.json', resolved = resolve(path), lastResolved;
     resolved !== lastResolved;
     lastResolved = resolved, path = '../' + path, resolved = resolve(path)
   ) {
     try {
-      const data = await promises.readFile(new URL(resolved));
-      return JSON.parse(data.toString()).version;
+      const data = yield* readFile(validator, new URL(resolved), sync);
+      return JSON.parse(data).version;
     } catch (err) {
       if ((err as ErrnoException).code !== 'ENOENT') {
         throw err;
@@ -844,6 +1538,165 @@ async function handleVersion(
   throw validator.error(ErrorItem.missingPackageJson);
 }
 
+//--------------------------------------------------------------------------------------------------
+// Configuration files
+//--------------------------------------------------------------------------------------------------
+/**
+ * Reads option values from a configuration file.
+ * Files with a `.json` extension are parsed as JSON, while others are parsed as INI.
+ * @param validator The option validator
+ * @param path The file path
+ * @param explicit True if the file path was explicitly specified
+ * @param sync True if parsing synchronously
+ * @yields The values to be resolved
+ * @returns The configuration record, or undefined if the file was not found
+ */
+function* readConfig(
+  validator: OptionValidator,
+  path: string,
+  explicit: boolean,
+  sync: boolean,
+): Resumable<ConfigRecord | undefined> {
+  let data;
+  try {
+    data = yield* readFile(validator, path, sync);
+  } catch (err) {
+    if ((err as ErrnoException).code !== 'ENOENT') {
+      throw err;
+    }
+    if (explicit) {
+      throw validator.error(ErrorItem.missingConfigFile, { s: path });
+    }
+    return undefined;
+  }
+  if (path.match(/\.json$/i)) {
+    let record;
+    try {
+      record = JSON.parse(data);
+    } catch {
+      // handled below
+    }
+    if (typeof record !== 'object' || !record || Array.isArray(record)) {
+      throw validator.error(ErrorItem.invalidConfigFile, { s: path }, { alt: 0 });
+    }
+    return record;
+  }
+  const record = parseIni(data);
+  if (typeof record === 'number') {
+    throw validator.error(ErrorItem.invalidConfigFile, { s: path, n: record }, { alt: 1 });
+  }
+  return record;
+}
+
+/**
+ * Parses the contents of an INI file.
+ * Each line may be either blank, a comment starting with `#` or `;`, a section header or a
+ * key-value pair. The pairs that follow a section header are collected in a nested record, which
+ * is stored under the section name.
+ * @param data The file contents
+ * @returns The configuration record, or the number of the first invalid line
+ */
+function parseIni(data: string): ConfigRecord | number {
+  const record: ConfigRecord = Object.create(null);
+  let section = record;
+  for (const [i, line] of data.split(/\r?\n/).entries()) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed[0] === '#' || trimmed[0] === ';') {
+      continue;
+    }
+    const [, name] = trimmed.match(/^\[\s*([\w.-]+)\s*\]$/) ?? [];
+    if (name !== undefined) {
+      const existing = record[name];
+      if (existing !== undefined && (typeof existing !== 'object' || Array.isArray(existing))) {
+        return i + 1;
+      }
+      section = (existing as ConfigRecord | undefined) ?? (record[name] = Object.create(null));
+      continue;
+    }
+    const [, key, str] = trimmed.match(/^([\w.-]+)\s*=\s*(.*)$/) ?? [];
+    const value = key !== undefined ? parseIniValue(str) : undefined;
+    if (value === undefined) {
+      return i + 1;
+    }
+    section[key] = value;
+  }
+  return record;
+}
+
+/**
+ * Parses a value from an INI file.
+ * Values may be either quoted strings, booleans, numbers, arrays of these or unquoted strings.
+ * @param str The value string
+ * @param inArray True if the value is an array element
+ * @returns The parsed value, or undefined if it is invalid
+ */
+function parseIniValue(str: string, inArray = false): unknown {
+  if (str[0] === '"') {
+    try {
+      return JSON.parse(str);
+    } catch {
+      return undefined;
+    }
+  }
+  if (str[0] === `'`) {
+    return str.length > 1 && str.endsWith(`'`) ? str.slice(1, -1) : undefined;
+  }
+  if (str[0] === '[' && !inArray) {
+    if (!str.endsWith(']')) {
+      return undefined;
+    }
+    const elements = str.slice(1, -1).trim();
+    const regex = /\s*("(?:[^"\\]|\\.)*"|'[^']*'|[^,"']*?)\s*(?:,|$)/y;
+    const result: Array<unknown> = [];
+    while (regex.lastIndex < elements.length) {
+      const [, element] = regex.exec(elements) ?? [];
+      const value = element !== undefined ? parseIniValue(element, true) : undefined;
+      if (value === undefined) {
+        return undefined;
+      }
+      result.push(value);
+    }
+    return result;
+  }
+  if (str === 'true' || str === 'false') {
+    return str === 'true';
+  }
+  return str && !isNaN(Number(str)) ? Number(str) : str;
+}
+
+/**
+ * Parses the value of an option from a configuration file.
+ * @param context The parsing context
+ * @param info The option information
+ * @param value The configuration value
+ * @yields The values to be resolved
+ */
+function* parseConfigValue(
+  context: ParseContext,
+  info: OptionInfo,
+  value: unknown,
+): Resumable<void> {
+  const [validator, values] = context;
+  const [key, name, option] = info;
+  const elements: Array<unknown> = Array.isArray(value) ? value : [value];
+  if (isOpt.msg(option) || option.type === 'command') {
+    // message-valued and command options cannot be specified in a configuration file
+    throw validator.error(ErrorItem.invalidConfigValue, { o: name });
+  } else if (typeof value === 'boolean' && isOpt.bool(option)) {
+    values[key] = value;
+  } else if (option.type === 'record' && typeof value === 'object' && !Array.isArray(value)) {
+    yield* parseParam(context, info, NaN, getRecordPairs(option, value ?? {}));
+  } else if (
+    option.type !== 'flag' &&
+    elements.every((element) => ['string', 'number', 'boolean'].includes(typeof element))
+  ) {
+    const handleFn = option.type === 'function' ? handleFunction : parseParam;
+    yield* handleFn(context, info, NaN, elements.map(String));
+  } else {
+    throw validator.error(ErrorItem.invalidConfigValue, { o: name });
+  }
+}
+
 //--------------------------------------------------------------------------------------------------
 // Requirements handling
 //--------------------------------------------------------------------------------------------------
@@ -851,22 +1704,54 @@ async function handleVersion(
  * Checks if required options were correctly specified.
  * This should only be called when completion is not in effect.
  * @param context The parsing context
+ * @yields The values to be resolved
  */
-async function checkRequired(context: ParseContext) {
-  const keys = getKeys(context[0].options);
-  // we may need to serialize the following call
-  await Promise.all(keys.map((key) => checkEnvVarAndDefaultValue(context, key)));
-  await Promise.all(keys.map((key) => checkRequiredOption(context, key)));
+function* checkRequired(context: ParseContext): Resumable<void> {
+  const [validator, values, , specifiedKeys, , , { configFile, sync }] = context;
+  const options = validator.options;
+  let keys = getKeys(options);
+  let path = configFile;
+  let explicit = false;
+  const configKey = keys.find((key) => options[key].configFile);
+  if (configKey !== undefined) {
+    // the configuration file option must be resolved before the remaining options
+    yield* checkEnvVarAndDefaultValue(context, configKey);
+    keys = keys.filter((key) => key !== configKey);
+    const value = values[configKey];
+    if (typeof value === 'string') {
+      path = value;
+      explicit = specifiedKeys.has(configKey);
+    }
+  }
+  let config: ConfigInfo | undefined;
+  if (path !== undefined) {
+    const record = yield* readConfig(validator, path, explicit, !!sync);
+    config = record && [path, record];
+  }
+  for (const key of keys) {
+    yield* checkEnvVarAndDefaultValue(context, key, config);
+  }
+  for (const group of validator.exclusive) {
+    checkGroup(context, group);
+  }
+  for (const key of getKeys(options)) {
+    yield* checkRequiredOption(context, key);
+  }
 }
 
 /**
- * Checks if there is an environment variable or default value for an option.
+ * Checks if there is an environment variable, configuration or default value for an option.
  * @param context The parsing context
  * @param key The option key
- * @returns A promise that must be awaited before continuing
+ * @param config The configuration file information, if any
+ * @yields The values to be resolved
  */
-async function checkEnvVarAndDefaultValue(context: ParseContext, key: string) {
-  const [validator, , , specifiedKeys] = context;
+function* checkEnvVarAndDefaultValue(
+  context: ParseContext,
+  key: string,
+  config?: ConfigInfo,
+): Resumable<void> {
+  const [validator, , , specifiedKeys, , , { sources }] = context;
   if (specifiedKeys.has(key)) {
     return;
   }
@@ -875,23 +1760,59 @@ async function checkEnvVarAndDefaultValue(context: ParseContext, key: string) {
   if (envVar) {
     const value = getEnv(envVar);
     if (value !== undefined) {
+      sources[key] = { kind: 'env', name: envVar };
       if (option.type === 'flag') {
         // don't parse the flag value, for consistency with the semantics of the command-line
         context[1][key] = true;
       } else {
         const handleFn = option.type === 'function' ? handleFunction : parseParam;
-        await handleFn(context, [key, envVar, option], NaN, [value]);
+        yield* handleFn(context, [key, envVar, option], NaN, [value]);
       }
       specifiedKeys.add(key);
       return;
     }
   }
+  if (config && Object.hasOwn(config[1], key) && config[1][key] !== null) {
+    const info: OptionInfo = [key, `${config[0]}:${key}`, option];
+    sources[key] = { kind: 'config', name: info[1] };
+    yield* parseConfigValue(context, info, config[1][key]);
+    specifiedKeys.add(key);
+    return;
+  }
   if (option.required) {
     const name = option.preferredName ?? '';
     throw validator.error(ErrorItem.missingRequiredOption, { o: name });
   }
   if ('default' in option) {
-    return setValue(context, key, option, 'default'); // sets undefined as well
+    sources[key] = { kind: 'default' };
+    yield* setValue(context, key, option, 'default'); // sets undefined as well
+  }
+}
+
+/**
+ * Checks if the options specified from an exclusive group satisfy its constraint.
+ * @param context The parsing context
+ * @param group The exclusive group
+ * @throws On conflicting options or missing option
+ */
+function checkGroup(context: ParseContext, group: ExclusiveGroup) {
+  const [validator, , , specifiedKeys] = context;
+  const options = validator.options;
+  const specified = group.keys.filter((key) => specifiedKeys.has(key));
+  const kind = group.kind ?? 'atMostOne';
+  const alt =
+    specified.length > 1 && kind !== 'atLeastOne'
+      ? 0
+      : !specified.length && kind !== 'atMostOne'
+        ? kind === 'atLeastOne'
+          ? 1
+          : 2
+        : undefined;
+  if (alt !== undefined) {
+    const keys = alt ? group.keys : specified;
+    const names = keys.map((key) => options[key].preferredName ?? '');
+    const sep = validator.config.connectives[ConnectiveWord.optionSep];
+    throw validator.error(ErrorItem.unsatisfiedGroup, { o: names }, { alt, sep });
   }
 }
 
@@ -899,8 +1820,9 @@ async function checkEnvVarAndDefaultValue(context: ParseContext, key: string) {
  * Checks the requirements of an option.
  * @param context The parsing context
  * @param key The option key
+ * @yields The values to be resolved
  */
-async function checkRequiredOption(context: ParseContext, key: string) {
+function* checkRequiredOption(context: ParseContext, key: string): Resumable<void> {
   /** @ignore */
   function check(requires: Requires, negate: boolean, invert: boolean) {
     return checkRequires(context, option, requires, error, negate, invert);
@@ -912,8 +1834,8 @@ async function checkRequiredOption(context: ParseContext, key: string) {
   const requiredIf = option.requiredIf;
   const error = new TerminalString();
   if (
-    (specified && requires && !(await check(requires, false, false))) ||
-    (!specified && requiredIf && !(await check(requiredIf, true, true)))
+    (specified && requires && !(yield* check(requires, false, false))) ||
+    (!specified && requiredIf && !(yield* check(requiredIf, true, true)))
   ) {
     const name = option.preferredName ?? '';
     const kind = specified
@@ -931,30 +1853,31 @@ async function checkRequiredOption(context: ParseContext, key: string) {
  * @param error The terminal string error
  * @param negate True if the requirements should be negated
  * @param invert True if the requirements should be inverted
+ * @yields The values to be resolved
  * @returns True if the requirements were satisfied
  */
-async function checkRequires(
+function* checkRequires(
   context: ParseContext,
   option: OpaqueOption,
   requires: Requires,
   error: TerminalString,
   negate: boolean,
   invert: boolean,
-): Promise<boolean> {
+): Resumable<boolean> {
   /** @ignore */
   function checkItems<T>(items: Array<T>, checkFn: RequireItemFn<T>, and: boolean) {
     return checkRequireItems(context, option, items, checkFn, error, negate, invert, and);
   }
-  return visitRequirements(
+  const result = visitRequirements<boolean | Resumable<boolean>>(
     requires,
-    (req) =>
-      Promise.resolve(checkRequiresEntry(context, option, [req, undefined], error, negate, invert)),
+    (req) => checkRequiresEntry(context, option, [req, undefined], error, negate, invert),
     (req) => checkRequires(context, option, req.item, error, !negate, invert),
     (req) => checkItems(req.items, checkRequires, !negate),
     (req) => checkItems(req.items, checkRequires, negate),
     (req) => checkItems(getEntries(req), checkRequiresEntry, !negate),
     (req) => checkRequiresCallback(context, option, req, error, negate, invert),
   );
+  return typeof result === 'boolean' ? result : yield* result;
 }
 
 /**
@@ -979,6 +1902,10 @@ function checkRequiresEntry(
   function norm<T>(val: T) {
     return validator.normalize(option, name, val);
   }
+  /** @ignore */
+  function time(val: unknown) {
+    return val instanceof Date ? val.getTime() : val; // compare dates by their timestamps
+  }
   const [validator, values, , specifiedKeys] = context;
   const [key, value] = entry;
   const actual = values[key];
@@ -996,21 +1923,36 @@ function checkRequiresEntry(
     format.o(option.preferredName ?? '', styles, error);
     return false;
   }
-  const spec = isOpt.bool(option) ? 'b' : isOpt.str(option) ? 's' : 'n';
+  const record = option.type === 'record';
+  const unit = isOpt.unit(option);
+  const spec = isOpt.bool(option) ? 'b' : isOpt.str(option) || record ? 's' : 'n';
   const name = option.preferredName ?? '';
-  const array = Array.isArray(value);
+  const array = Array.isArray(value) || record;
   let expected;
-  if (array) {
+  if (record) {
+    // compare the key-value pairs regardless of order
+    expected = getRecordPairs(option, norm(value as object)).sort();
+    const pairs = getRecordPairs(option, actual as object).sort();
+    if (areEqual(pairs, expected) !== negate) {
+      return true;
+    }
+  } else if (Array.isArray(value)) {
     expected = norm(value.map(norm));
-    if (areEqual(actual as ReadonlyArray<unknown>, expected, option.unique) !== negate) {
+    const items = (actual as ReadonlyArray<unknown>).map(time);
+    if (areEqual(items, expected.map(time), option.unique) !== negate) {
       return true;
     }
   } else {
     expected = norm(value);
-    if ((actual === expected) !== negate) {
+    if ((time(actual) === time(expected)) !== negate) {
       return true;
     }
   }
+  if (unit) {
+    expected = Array.isArray(expected)
+      ? expected.map((val) => getUnitString(option, val))
+      : getUnitString(option, expected);
+  }
   const { styles, connectives } = validator.config;
   const connective =
     negate !== invert ? connectives[ConnectiveWord.notEquals] : connectives[ConnectiveWord.equals];
@@ -1030,9 +1972,10 @@ function checkRequiresEntry(
  * @param negate True if the requirement should be negated
  * @param invert True if the requirements should be inverted
  * @param and If true, return on the first error; else return on the first success
+ * @yields The values to be resolved
  * @returns True if the requirement was satisfied
  */
-async function checkRequireItems<T>(
+function* checkRequireItems<T>(
   context: ParseContext,
   option: OpaqueOption,
   items: Array<T>,
@@ -1041,7 +1984,7 @@ async function checkRequireItems<T>(
   negate: boolean,
   invert: boolean,
   and: boolean,
-): Promise<boolean> {
+): Resumable<boolean> {
   const connectives = context[0].config.connectives;
   const connective = invert ? connectives[ConnectiveWord.and] : connectives[ConnectiveWord.or];
   if (!and && items.length > 1) {
@@ -1054,7 +1997,8 @@ async function checkRequireItems<T>(
     } else {
       error.word(connective);
     }
-    const success = await itemFn(context, option, item, error, negate, invert);
+    const result = itemFn(context, option, item, error, negate, invert);
+    const success = typeof result === 'boolean' ? result : yield* result;
     if (success !== and) {
       return success;
     }
@@ -1076,18 +2020,20 @@ async function checkRequireItems<T>(
  * @param error The terminal string error
  * @param negate True if the requirements should be negated
  * @param invert True if the requirements should be inverted
+ * @yields The values to be resolved
  * @returns True if the requirements were satisfied
  */
-async function checkRequiresCallback(
+function* checkRequiresCallback(
   context: ParseContext,
   option: OpaqueOption,
   callback: RequiresCallback,
   error: TerminalString,
   negate: boolean,
   invert: boolean,
-): Promise<boolean> {
-  const [validator, values] = context;
-  const result = await callback.bind(option)(values);
+): Resumable<boolean> {
+  const [validator, values, , , , , { sync }] = context;
+  const name = option.preferredName ?? '';
+  const result = yield* validator.settle(name, callback.bind(option)(values), sync);
   if (result === negate) {
     const { styles, connectives } = validator.config;
     if (negate !== invert) {
@@ -0,0 +1,252 @@
+//--------------------------------------------------------------------------------------------------
+// Imports
+//--------------------------------------------------------------------------------------------------
+import type { OpaqueOption, OpaqueOptions, Options } from './options.js';
+
+import { isOpt } from './options.js';
+import { getEntries, regexps } from './utils.js';
+
+//--------------------------------------------------------------------------------------------------
+// Constants
+//--------------------------------------------------------------------------------------------------
+/**
+ * The JSON Schema dialect of the generated documents.
+ */
+const schemaDialect = 'https://json-schema.org/draft/2020-12/schema';
+
+//--------------------------------------------------------------------------------------------------
+// Public types
+//--------------------------------------------------------------------------------------------------
+/**
+ * A JSON Schema document or sub-schema.
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * The result of generating a JSON Schema.
+ */
+export type SchemaResult = {
+  /**
+   * The JSON Schema document.
+   */
+  readonly schema: JsonSchema;
+  /**
+   * The attributes that were skipped because they are callbacks or constraints that cannot be
+   * expressed in the schema (i.e., enumeration and range of bigint and date options, and regular
+   * expressions with flags), as option keys prefixed with the keys of nested commands and suffixed
+   * with the attribute name (e.g., `cmd.flag.default`).
+   */
+  readonly skipped: Array<string>;
+};
+
+//--------------------------------------------------------------------------------------------------
+// Internal types
+//--------------------------------------------------------------------------------------------------
+/**
+ * The schema generation context.
+ */
+type SchemaContext = [
+  skipped: Array<string>,
+  visited: Map<OpaqueOption, string>,
+  prefix: string,
+  pointer: string,
+];
+
+//--------------------------------------------------------------------------------------------------
+// Functions
+//--------------------------------------------------------------------------------------------------
+/**
+ * Generates a JSON Schema document for a set of option definitions.
+ * The schema describes the option values, including those of nested commands as sub-schemas.
+ * Options that do not have a value (help, version and completion) are not included.
+ * @param options The option definitions
+ * @returns The schema generation result
+ */
+export async function generateSchema(options: Options): Promise<SchemaResult> {
+  const skipped: Array<string> = [];
+  const context: SchemaContext = [skipped, new Map(), '', '#'];
+  const schema = await buildObjectSchema(context, options as OpaqueOptions);
+  return { schema: { $schema: schemaDialect, ...schema }, skipped };
+}
+
+/**
+ * Builds the schema of a set of option definitions.
+ * @param context The schema generation context
+ * @param options The option definitions
+ * @returns The object schema
+ */
+async function buildObjectSchema(
+  context: SchemaContext,
+  options: OpaqueOptions,
+): Promise<JsonSchema> {
+  const [skipped, visited, prefix, pointer] = context;
+  const properties: Record<string, JsonSchema> = {};
+  const required: Array<string> = [];
+  for (const [key, option] of getEntries(options)) {
+    if (isOpt.msg(option)) {
+      continue; // options without a value
+    }
+    const prefixedKey = prefix + key;
+    for (const [attr, value] of getEntries(option)) {
+      if (typeof value === 'function' && attr !== 'options') {
+        skipped.push(`${prefixedKey}.${attr}`);
+      }
+    }
+    const keyPointer = `${pointer}/properties/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+    let schema: JsonSchema;
+    if (option.type === 'command') {
+      const ref = visited.get(option);
+      if (ref !== undefined) {
+        properties[key] = { $ref: ref }; // recursive command definition
+        continue;
+      }
+      visited.set(option, keyPointer);
+      // do not destructure `options`, because the callback might need to use `this`
+      const resolved =
+        typeof option.options === 'function' ? await option.options() : option.options ?? {};
+      const cmdContext: SchemaContext = [skipped, visited, prefixedKey + '.', keyPointer];
+      schema = await buildObjectSchema(cmdContext, resolved as OpaqueOptions);
+    } else {
+      for (const attr of getSkippedConstraints(option)) {
+        skipped.push(`${prefixedKey}.${attr}`);
+      }
+      schema = buildValueSchema(option);
+    }
+    properties[key] = { ...getAnnotations(option), ...schema };
+    if (option.required) {
+      required.push(key);
+    }
+  }
+  return {
+    type: 'object',
+    properties,
+    ...(required.length && { required }),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Builds the schema of an option's value.
+ * @param option The option definition
+ * @returns The value schema
+ */
+function buildValueSchema(option: OpaqueOption): JsonSchema {
+  const type = option.type;
+  if (type === 'function') {
+    return {}; // unknown value
+  }
+  if (isOpt.bool(option)) {
+    return { type: 'boolean' };
+  }
+  if (type === 'record') {
+    const values: JsonSchema = { type: ['string', 'number'] };
+    return {
+      type: 'object',
+      propertyNames: buildConstraints(option, 'string'),
+      additionalProperties:
+        option.duplicates === 'append' ? { type: 'array', items: values } : values,
+    };
+  }
+  // durations and sizes can be specified either in human-readable form or in base units, while
+  // dates are specified as strings (whose range cannot be expressed in the schema). Bigints may
+  // exceed the precision of JSON numbers, so they can also be specified as strings.
+  const date = type === 'date' || type === 'dates';
+  const bigint = type === 'bigint' || type === 'bigints';
+  const itemType =
+    type === 'count'
+      ? 'integer'
+      : bigint
+        ? ['integer', 'string']
+        : isOpt.num(option)
+          ? 'number'
+          : isOpt.unit(option) && !date
+            ? ['string', 'number']
+            : 'string';
+  const items = date || bigint ? { type: itemType } : buildConstraints(option, itemType);
+  if (!isOpt.arr(option)) {
+    return items;
+  }
+  return {
+    type: 'array',
+    items,
+    ...(option.limit !== undefined && { maxItems: option.limit }),
+    ...(option.unique && { uniqueItems: true }),
+  };
+}
+
+/**
+ * Builds the schema of a single value, with the option's constraints.
+ * @param option The option definition
+ * @param type The value type
+ * @returns The value schema
+ */
+function buildConstraints(option: OpaqueOption, type: string | Array<string>): JsonSchema {
+  const { enums, regex, range } = option;
+  const result: JsonSchema = { type };
+  if (enums) {
+    result['enum'] = enums;
+  }
+  if (regex && !regex.flags) {
+    result['pattern'] = regex.source;
+  }
+  if (range) {
+    const [min, max] = range;
+    if (Number.isFinite(min)) {
+      result['minimum'] = min;
+    }
+    if (Number.isFinite(max)) {
+      result['maximum'] = max;
+    }
+  }
+  return result;
+}
+
+/**
+ * Gets the constraints of an option that cannot be expressed in the schema.
+ * @param option The option definition
+ * @returns The attribute names
+ */
+function getSkippedConstraints(option: OpaqueOption): Array<string> {
+  const { type, enums, regex, range } = option;
+  const result: Array<string> = [];
+  if (['bigint', 'bigints', 'date', 'dates'].includes(type)) {
+    // bigints may be specified as strings and dates are specified as strings
+    if (enums) {
+      result.push('enums');
+    }
+    if (range) {
+      result.push('range');
+    }
+  }
+  if (regex?.flags) {
+    result.push('regex'); // JSON Schema patterns do not support flags
+  }
+  return result;
+}
+
+/**
+ * Gets the annotations of an option: its description, default value and deprecation notice.
+ * @param option The option definition
+ * @returns The annotation keywords
+ */
+function getAnnotations(option: OpaqueOption): JsonSchema {
+  const { desc, deprecated } = option;
+  const result: JsonSchema = {};
+  if (desc) {
+    result['description'] = desc.replace(regexps.style, '');
+  }
+  const value = option.default;
+  if ('default' in option && typeof value !== 'function') {
+    // bigints are not serializable, so we convert them to strings
+    result['default'] =
+      typeof value === 'bigint'
+        ? `${value}`
+        : Array.isArray(value)
+          ? value.map((val) => (typeof val === 'bigint' ? `${val}` : (val as unknown)))
+          : value;
+  }
+  if (deprecated !== undefined) {
+    result['deprecated'] = true;
+  }
+  return result;
+}
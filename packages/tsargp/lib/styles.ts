@@ -1,12 +1,14 @@
 //--------------------------------------------------------------------------------------------------
 // Imports and Exports
 //--------------------------------------------------------------------------------------------------
-import type { Alias, Concrete, Enumerate, URL, ValuesOf } from './utils.js';
+import type { OptionStyles } from './options.js';
+import type { Alias, Concrete, Enumerate, Range, URL, ValuesOf } from './utils.js';
 import { cs, tf, fg, bg, ConnectiveWord } from './enums.js';
 import { getEnv, max, regexps, selectAlternative } from './utils.js';
 
 export { sequence as seq, sgr as style, foreground as fg8, background as bg8, underline as ul8 };
-export { underlineStyle as ul, formatFunctions as format };
+export { foreground24 as fg24, background24 as bg24, underline24 as ul24 };
+export { underlineStyle as ul, formatFunctions as format, detectColorLevel, detectHyperlinks };
 
 //--------------------------------------------------------------------------------------------------
 // Constants
@@ -109,7 +111,7 @@ const formatFunctions = {
    * @param result The resulting string
    */
   u(url: URL, styles, result) {
-    result.style(styles.url, url.href, styles.current ?? styles.text);
+    result.link(url.href, url.href, styles.url, styles.current ?? styles.text);
   },
   /**
    * The formatting function for general text.
@@ -141,6 +143,35 @@ const formatFunctions = {
   },
 } as const satisfies FormatFunctions;
 
+/**
+ * The ranges of code points with East Asian Wide (W) or Fullwidth (F) width.
+ * Emoji are handled separately, through their Unicode properties.
+ */
+// cspell:ignore Fullwidth Jamo Nushu
+const wideRanges: ReadonlyArray<Range> = [
+  [0x1100, 0x115f], // Hangul Jamo
+  [0x2e80, 0x303e], // CJK Radicals to CJK Symbols and Punctuation
+  [0x3041, 0x33ff], // Hiragana to CJK Compatibility
+  [0x3400, 0x4dbf], // CJK Unified Ideographs Extension A
+  [0x4e00, 0x9fff], // CJK Unified Ideographs
+  [0xa000, 0xa4cf], // Yi Syllables and Radicals
+  [0xa960, 0xa97f], // Hangul Jamo Extended-A
+  [0xac00, 0xd7a3], // Hangul Syllables
+  [0xf900, 0xfaff], // CJK Compatibility Ideographs
+  [0xfe10, 0xfe19], // Vertical Forms
+  [0xfe30, 0xfe6f], // CJK Compatibility Forms and Small Form Variants
+  [0xff00, 0xff60], // Fullwidth Forms
+  [0xffe0, 0xffe6], // Fullwidth Signs
+  [0x1b000, 0x1b2ff], // Kana Supplement to Nushu
+  [0x20000, 0x2fffd], // CJK Unified Ideographs Extension B to F
+  [0x30000, 0x3fffd], // CJK Unified Ideographs Extension G
+];
+
+/**
+ * The grapheme cluster segmenter, if supported by the runtime.
+ */
+const segmenter = typeof Intl !== 'undefined' && Intl.Segmenter ? new Intl.Segmenter() : undefined;
+
 //--------------------------------------------------------------------------------------------------
 // Public types
 //--------------------------------------------------------------------------------------------------
@@ -181,6 +212,26 @@ export type BgColor = [48, 5, Decimal];
  */
 export type UlColor = [58, 5, Decimal];
 
+/**
+ * A 24-bit foreground color.
+ */
+export type FgTrueColor = [38, 2, Decimal, Decimal, Decimal];
+
+/**
+ * A 24-bit background color.
+ */
+export type BgTrueColor = [48, 2, Decimal, Decimal, Decimal];
+
+/**
+ * A 24-bit underline color.
+ */
+export type UlTrueColor = [58, 2, Decimal, Decimal, Decimal];
+
+/**
+ * A 24-bit color in hexadecimal notation (e.g., `#ff8800` or `#f80`).
+ */
+export type HexColor = `#${string}`;
+
 /**
  * An underline style.
  */
@@ -189,7 +240,27 @@ export type UlStyle = ValuesOf<typeof underlineStyle>;
 /**
  * A text styling attribute.
  */
-export type StyleAttr = tf | fg | bg | FgColor | BgColor | UlColor | UlStyle;
+export type StyleAttr =
+  | tf
+  | fg
+  | bg
+  | FgColor
+  | BgColor
+  | UlColor
+  | FgTrueColor
+  | BgTrueColor
+  | UlTrueColor
+  | UlStyle;
+
+/**
+ * A color capability level of a terminal: none, 16 colors, 256 colors or 24-bit colors.
+ */
+export type ColorLevel = 0 | 1 | 2 | 3;
+
+/**
+ * A set of environment variables.
+ */
+export type Environment = Readonly<Record<string, string | undefined>>;
 
 /**
  * A callback that processes a format specifier when splitting text.
@@ -251,6 +322,24 @@ export type MessageStyles = {
   readonly text?: Style;
 };
 
+/**
+ * A theme that maps semantic roles to styles.
+ */
+export type Theme = {
+  /**
+   * The styles of text elements in error and help messages.
+   */
+  readonly styles?: MessageStyles;
+  /**
+   * The default display styles of options in help messages.
+   */
+  readonly options?: OptionStyles;
+  /**
+   * The default style of section headings and option group headings in help messages.
+   */
+  readonly heading?: Style;
+};
+
 /**
  * A concrete version of the format styles.
  */
@@ -435,7 +524,7 @@ export class TerminalString {
     if (pos >= 0 && pos < this.count) {
       const [strings, lengths] = this.context;
       strings[pos] = word + strings[pos];
-      lengths[pos] += word.length;
+      lengths[pos] += displayWidth(word);
     } else if (word) {
       this.word(word).setMerge();
     }
@@ -459,7 +548,20 @@ export class TerminalString {
    * @returns The terminal string instance
    */
   style(begin: Style, word: string, end: Style = ''): this {
-    return this.add(begin + word + end, word.length);
+    return this.add(begin + word + end, displayWidth(word));
+  }
+
+  /**
+   * Appends a word as a hyperlink, with optional surrounding styles.
+   * The hyperlink sequences do not count towards the length of the word.
+   * @param url The hyperlink target
+   * @param word The word to be appended (defaults to the hyperlink target)
+   * @param begin The starting style
+   * @param end The ending style
+   * @returns The terminal string instance
+   */
+  link(url: string, word = url, begin: Style = '', end: Style = ''): this {
+    return this.add(begin + hyperlink(url, word) + end, displayWidth(word));
   }
 
   /**
@@ -468,7 +570,7 @@ export class TerminalString {
    * @returns The terminal string instance
    */
   word(word: string): this {
-    return this.add(word, word.length);
+    return this.add(word, displayWidth(word));
   }
 
   /**
@@ -598,11 +700,12 @@ export class TerminalString {
         let length = result.length;
         for (; length && column > start; --length) {
           const last = result[length - 1];
-          if (last.length > column - start) {
-            result[length - 1] = last.slice(0, start - column); // cut the last string
+          const lastWidth = displayWidth(last);
+          if (lastWidth > column - start) {
+            result[length - 1] = sliceWidth(last, lastWidth - column + start); // cut the last string
             break;
           }
-          column -= last.length;
+          column -= lastWidth;
         }
         result.length = length;
       }
@@ -631,7 +734,7 @@ export class TerminalString {
         continue;
       }
       if (!emitStyles) {
-        str = str.replace(regexps.style, '');
+        str = str.replace(regexps.style, '').replace(regexps.link, '');
       }
       if (column === start) {
         result.push(str);
@@ -656,20 +759,34 @@ export class TerminalString {
 export class AnsiMessage extends Array<TerminalString> {
   /**
    * Wraps the help message to a specified width.
+   * Colors are down-sampled to the supported color level, if needed.
+   * By default, the color level and hyperlink support are detected for the standard output.
    * @param width The terminal width (or zero to avoid wrapping)
-   * @param emitStyles True if styles should be emitted
+   * @param emitStyles True if styles should be emitted, or the color level
+   * @param emitLinks True if hyperlinks should be emitted (only if styles are emitted)
    * @returns The message to be printed on a terminal
    */
-  wrap(width = 0, emitStyles = !omitStyles(width)): string {
+  wrap(
+    width = 0,
+    emitStyles: boolean | ColorLevel = detectColorLevel(undefined, streamIsTTY('stdout')),
+    emitLinks = detectHyperlinks(undefined, streamIsTTY('stdout')),
+  ): string {
+    const level = emitStyles === true ? 3 : emitStyles === false ? 0 : emitStyles;
     const result: Array<string> = [];
     let column = 0;
     for (const str of this) {
-      column = str.wrap(result, column, width, emitStyles);
+      column = str.wrap(result, column, width, level > 0);
     }
-    if (emitStyles) {
+    if (level) {
       result.push(sgr(tf.clear));
     }
-    return result.join('');
+    let message = result.join('');
+    if (level && !emitLinks) {
+      message = message.replace(regexps.link, '');
+    }
+    return level === 1 || level === 2
+      ? message.replace(regexps.style, (seq) => downsample(seq, level))
+      : message;
   }
 
   /**
@@ -695,7 +812,10 @@ export class JsonMessage extends Array<object> {
    * @returns The wrapped message
    */
   toString(): string {
-    return JSON.stringify(this);
+    // bigints are not serializable, so we convert them to strings
+    return JSON.stringify(this, (_key, value) =>
+      typeof value === 'bigint' ? `${value}` : (value as unknown),
+    );
   }
 
   /**
@@ -714,7 +834,12 @@ export class WarnMessage extends AnsiMessage {
    * @returns The wrapped message
    */
   override toString(): string {
-    return this.wrap(streamWidth('stderr'));
+    const isTTY = streamIsTTY('stderr');
+    return this.wrap(
+      streamWidth('stderr'),
+      detectColorLevel(undefined, isTTY),
+      detectHyperlinks(undefined, isTTY),
+    );
   }
 }
 
@@ -819,10 +944,79 @@ function splitItem(result: TerminalString, item: string, format?: FormatCallback
         continue;
       }
     }
-    const styles = word.match(regexps.style) ?? [];
-    const length = styles.reduce((acc, str) => acc + str.length, 0);
-    result.add(word, word.length - length);
+    const url = word.match(regexps.url);
+    if (url) {
+      const [, href, rest] = url;
+      result.add(hyperlink(href, href) + rest, displayWidth(word));
+      continue;
+    }
+    result.add(word, displayWidth(word.replace(regexps.style, '')));
+  }
+}
+
+/**
+ * Gets the display width of a text in a terminal, in number of columns.
+ * The text is split into grapheme clusters, each of which may have zero width (e.g., combining
+ * marks and other format characters), double width (e.g., East Asian wide characters and emoji) or
+ * single width.
+ * @param text The text, without control sequences
+ * @returns The display width
+ */
+function displayWidth(text: string): number {
+  if (/^[\x20-\x7e]*$/.test(text)) {
+    return text.length; // fast path for printable ASCII
+  }
+  return splitGraphemes(text).reduce((acc, grapheme) => acc + graphemeWidth(grapheme), 0);
+}
+
+/**
+ * Gets the longest prefix of a text that fits in a display width, without splitting grapheme
+ * clusters.
+ * @param text The text, without control sequences
+ * @param width The display width
+ * @returns The text prefix
+ */
+function sliceWidth(text: string, width: number): string {
+  if (/^[\x20-\x7e]*$/.test(text)) {
+    return text.slice(0, width); // fast path for printable ASCII
+  }
+  let result = '';
+  for (const grapheme of splitGraphemes(text)) {
+    width -= graphemeWidth(grapheme);
+    if (width < 0) {
+      break;
+    }
+    result += grapheme;
+  }
+  return result;
+}
+
+/**
+ * Splits a text into grapheme clusters, or into code points if segmentation is not available.
+ * @param text The text
+ * @returns The grapheme clusters
+ */
+function splitGraphemes(text: string): Array<string> {
+  return segmenter ? Array.from(segmenter.segment(text), (seg) => seg.segment) : Array.from(text);
+}
+
+/**
+ * Gets the display width of a grapheme cluster.
+ * @param grapheme The grapheme cluster
+ * @returns The display width (0, 1 or 2)
+ */
+function graphemeWidth(grapheme: string): number {
+  if (
+    /\p{Emoji_Presentation}|\p{Regional_Indicator}/u.test(grapheme) ||
+    (/\p{Extended_Pictographic}/u.test(grapheme) && grapheme.includes('\ufe0f'))
+  ) {
+    return 2;
+  }
+  if (/^[\p{M}\p{Cf}\p{Cc}]/u.test(grapheme)) {
+    return 0; // combining marks, zero-width joiners and other invisible characters
   }
+  const code = grapheme.codePointAt(0) ?? 0;
+  return wideRanges.some(([min, max]) => code >= min && code <= max) ? 2 : 1;
 }
 
 /**
@@ -870,12 +1064,160 @@ function streamWidth(stream: 'stdout' | 'stderr'): number {
 }
 
 /**
- * @param width The terminal width (in number of columns)
- * @returns True if styles should be omitted from terminal strings
+ * Checks whether a process stream is a TTY.
+ * @param stream The name of the stream
+ * @returns True if the stream is a TTY
+ */
+function streamIsTTY(stream: 'stdout' | 'stderr'): boolean {
+  return !!process?.[stream]?.isTTY;
+}
+
+/**
+ * Detects the color capability level of a terminal from a set of environment variables.
+ * `FORCE_COLOR` sets the minimum level (or disables colors if zero) regardless of other variables.
+ * Otherwise, colors are disabled if `NO_COLOR` is set, if `TERM` is `dumb` or if the terminal is not
+ * a TTY. The level is then determined by `COLORTERM` and `TERM`.
+ * @param env The environment variables (defaults to those of the process)
+ * @param isTTY True if the terminal is a TTY
+ * @returns The color level
  * @see https://clig.dev/#output
+ * @see https://force-color.org
+ */
+function detectColorLevel(env: Environment = process?.env ?? {}, isTTY = false): ColorLevel {
+  const forceColor = env['FORCE_COLOR'];
+  const force = !forceColor
+    ? undefined
+    : forceColor === 'false' || forceColor === '0'
+      ? 0
+      : (Math.min(3, Math.max(0, Math.trunc(Number(forceColor)) || 1)) as ColorLevel);
+  if (force === 0) {
+    return 0;
+  }
+  const term = env['TERM'] ?? '';
+  if (force === undefined && (!isTTY || !!env['NO_COLOR'] || term === 'dumb')) {
+    return 0;
+  }
+  const colorTerm = env['COLORTERM'] ?? '';
+  const level =
+    term === 'dumb'
+      ? 0
+      : colorTerm === 'truecolor' || colorTerm === '24bit'
+        ? 3
+        : term.endsWith('256color') || term.endsWith('256')
+          ? 2
+          : 1;
+  return max(force ?? 0, level) as ColorLevel;
+}
+
+/**
+ * Detects whether a terminal supports OSC 8 hyperlinks from a set of environment variables.
+ * `FORCE_HYPERLINK` enables (or disables, if zero) hyperlinks regardless of other variables.
+ * Otherwise, hyperlinks are disabled if the terminal is not a TTY, and enabled for some known
+ * terminal emulators.
+ * @param env The environment variables (defaults to those of the process)
+ * @param isTTY True if the terminal is a TTY
+ * @returns True if hyperlinks are supported
+ */
+function detectHyperlinks(env: Environment = process?.env ?? {}, isTTY = false): boolean {
+  const forceLink = env['FORCE_HYPERLINK'];
+  if (forceLink) {
+    return forceLink !== '0' && forceLink !== 'false';
+  }
+  if (!isTTY) {
+    return false;
+  }
+  const { TERM, TERM_PROGRAM, VTE_VERSION } = env;
+  return (
+    !!(env['WT_SESSION'] || env['DOMTERM'] || env['KONSOLE_VERSION']) ||
+    Number(VTE_VERSION) >= 5000 ||
+    ['iTerm.app', 'WezTerm', 'vscode', 'ghostty'].includes(TERM_PROGRAM ?? '') ||
+    ['xterm-kitty', 'alacritty', 'foot'].includes(TERM ?? '')
+  );
+}
+
+/**
+ * Creates an OSC 8 hyperlink.
+ * @param url The hyperlink target
+ * @param text The hyperlink text
+ * @returns The hyperlink sequences with the text
+ * @see https://gist.github.com/egmontkob/eb114294efbcd5adb1944c9f3cb5feaf
+ */
+function hyperlink(url: string, text: string): string {
+  return `\x1b]8;;${url}\x1b\\${text}\x1b]8;;\x1b\\`;
+}
+
+/**
+ * Down-samples the colors of SGR sequences to a color level.
+ * Colors that have no equivalent in the target level (e.g., underline colors) are discarded.
+ * @param seq The SGR sequences
+ * @param level The color level (either 1 or 2)
+ * @returns The resulting sequences
+ */
+function downsample(seq: string, level: 1 | 2): string {
+  // eslint-disable-next-line no-control-regex
+  return seq.replace(/\x1b\[([\d;]*)m/g, (_, params: string) => {
+    const codes = params.split(';').map(Number);
+    const result: Array<number> = [];
+    for (let i = 0; i < codes.length; ++i) {
+      const code = codes[i];
+      if (code !== 38 && code !== 48 && code !== 58) {
+        result.push(code);
+        continue;
+      }
+      const truecolor = codes[i + 1] === 2;
+      const index = truecolor ? rgbToIndex(codes[i + 2], codes[i + 3], codes[i + 4]) : codes[i + 2];
+      i += truecolor ? 4 : 2; // skip extended color
+      if (level === 2) {
+        result.push(code, 5, index);
+      } else if (code !== 58) {
+        result.push(indexToBasic(index) + (code === 48 ? 10 : 0));
+      }
+    }
+    return result.length ? sequence(cs.sgr, ...result) : '';
+  });
+}
+
+/**
+ * Converts a 24-bit color to the nearest 8-bit palette index.
+ * @param red The red component
+ * @param green The green component
+ * @param blue The blue component
+ * @returns The palette index
+ */
+function rgbToIndex(red: number, green: number, blue: number): number {
+  if (red === green && green === blue) {
+    return red < 8 ? 16 : red > 248 ? 231 : Math.round(((red - 8) / 247) * 24) + 232;
+  }
+  const [r, g, b] = [red, green, blue].map((c) => Math.round((c / 255) * 5));
+  return 16 + 36 * r + 6 * g + b;
+}
+
+/**
+ * Converts an 8-bit palette index to the nearest predefined foreground color.
+ * @param index The palette index
+ * @returns The foreground color
  */
-function omitStyles(width: number): boolean {
-  return !getEnv('FORCE_COLOR') && (!width || !!getEnv('NO_COLOR') || getEnv('TERM') === 'dumb');
+function indexToBasic(index: number): fg {
+  if (index < 8) {
+    return fg.black + index;
+  }
+  if (index < 16) {
+    return fg.brightBlack + index - 8;
+  }
+  let rgb: Array<number>;
+  if (index >= 232) {
+    const gray = ((index - 232) * 10 + 8) / 255;
+    rgb = [gray, gray, gray];
+  } else {
+    const code = index - 16;
+    rgb = [Math.floor(code / 36) / 5, Math.floor((code % 36) / 6) / 5, (code % 6) / 5];
+  }
+  const value = Math.round(Math.max(...rgb) * 2);
+  if (!value) {
+    return fg.black;
+  }
+  const [r, g, b] = rgb.map(Math.round);
+  return (value === 2 ? fg.brightBlack : fg.black) + ((b << 2) | (g << 1) | r);
 }
 
 /**
@@ -924,3 +1266,57 @@ function background(color: Decimal): BgColor {
 function underline(color: Decimal): UlColor {
   return [58, 5, color];
 }
+
+/**
+ * Creates a 24-bit foreground color.
+ * @param color The color in hexadecimal notation, or its red component
+ * @param green The green component
+ * @param blue The blue component
+ * @returns The foreground color
+ */
+function foreground24(color: HexColor | Decimal, green?: Decimal, blue?: Decimal): FgTrueColor {
+  return [38, 2, ...getRgb(color, green, blue)];
+}
+
+/**
+ * Creates a 24-bit background color.
+ * @param color The color in hexadecimal notation, or its red component
+ * @param green The green component
+ * @param blue The blue component
+ * @returns The background color
+ */
+function background24(color: HexColor | Decimal, green?: Decimal, blue?: Decimal): BgTrueColor {
+  return [48, 2, ...getRgb(color, green, blue)];
+}
+
+/**
+ * Creates a 24-bit underline color.
+ * @param color The color in hexadecimal notation, or its red component
+ * @param green The green component
+ * @param blue The blue component
+ * @returns The underline color
+ */
+function underline24(color: HexColor | Decimal, green?: Decimal, blue?: Decimal): UlTrueColor {
+  return [58, 2, ...getRgb(color, green, blue)];
+}
+
+/**
+ * Gets the components of a 24-bit color.
+ * Invalid hexadecimal digits are treated as zero.
+ * @param color The color in hexadecimal notation, or its red component
+ * @param green The green component (defaults to zero)
+ * @param blue The blue component (defaults to zero)
+ * @returns The red, green and blue components
+ */
+function getRgb(
+  color: HexColor | Decimal,
+  green: Decimal = 0,
+  blue: Decimal = 0,
+): [Decimal, Decimal, Decimal] {
+  if (typeof color === 'number') {
+    return [color, green, blue];
+  }
+  const digits = color.length === 4 ? color.slice(1).replace(/./g, '$&$&') : color.slice(1, 7);
+  const [red, grn, blu] = [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16) || 0);
+  return [red, grn, blu] as [Decimal, Decimal, Decimal];
+}
@@ -32,6 +32,16 @@ export const regexps = {
    */
   // eslint-disable-next-line no-control-regex
   style: /(?:\x1b\[[\d;]+m)+/g,
+  /**
+   * A regular expression to match OSC 8 hyperlink sequences.
+   */
+  // eslint-disable-next-line no-control-regex
+  link: /\x1b\]8;[^;\x07\x1b]*;[^\x07\x1b]*(?:\x07|\x1b\\)/g,
+  /**
+   * A regular expression to match URLs in text, with optional trailing punctuation.
+   */
+  // eslint-disable-next-line no-control-regex
+  url: /^((?:https?|ftp|file):\/\/[^\s\x1b]+?)([.,;:!?)]*)$/,
   /**
    * A regular expression to match `RegExp` special characters.
    */
@@ -144,6 +154,14 @@ export type NamingMatch<T extends NamingRules> = Resolve<{
  */
 export type Range = [min: number, max: number];
 
+/**
+ * A computation that yields values which may need to be awaited, and returns a result.
+ * It allows the same code to be shared between asynchronous and synchronous APIs.
+ * @template T The type of the result
+ * @internal
+ */
+export type Resumable<T> = Generator<unknown, T, unknown>;
+
 //--------------------------------------------------------------------------------------------------
 // Functions
 //--------------------------------------------------------------------------------------------------
@@ -151,10 +169,11 @@ export type Range = [min: number, max: number];
  * Gets a list of arguments from a raw command line.
  * @param line The command line, including the command name
  * @param compIndex The completion index, if any (should be non-negative)
+ * @param anySpace True if tabs and line breaks should also separate arguments (e.g., in files)
  * @returns The list of arguments, up to the completion index
  * @internal
  */
-export function getArgs(line: string, compIndex = NaN): Array<string> {
+export function getArgs(line: string, compIndex = NaN, anySpace = false): Array<string> {
   /** @ignore */
   function append(char: string) {
     arg = (arg ?? '') + char;
@@ -180,7 +199,10 @@ export function getArgs(line: string, compIndex = NaN): Array<string> {
         }
         break;
       case ' ':
-        if (quote) {
+      case '\t':
+      case '\n':
+      case '\r':
+        if (quote || (char !== ' ' && !anySpace)) {
           append(char);
         } else if (arg !== undefined) {
           result.push(arg);
@@ -552,3 +574,58 @@ export function mergeValues<T extends Record<string, unknown>>(
   }
   return result as T;
 }
+
+/**
+ * Checks whether a value is a thenable (i.e., a promise-like object).
+ * @param value The value to check
+ * @returns True if the value is a thenable
+ * @internal
+ */
+export function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return (
+    (typeof value === 'object' || typeof value === 'function') &&
+    value !== null &&
+    typeof (value as PromiseLike<unknown>).then === 'function'
+  );
+}
+
+/**
+ * Runs a resumable computation asynchronously.
+ * Each yielded value is awaited and passed back to the computation (or its rejection reason is
+ * thrown into it).
+ * @template T The type of the result
+ * @param gen The resumable computation
+ * @returns A promise that resolves to the result
+ * @internal
+ */
+export async function runAsync<T>(gen: Resumable<T>): Promise<T> {
+  for (let next = gen.next(); ; ) {
+    if (next.done) {
+      return next.value;
+    }
+    let value;
+    try {
+      value = await next.value;
+    } catch (err) {
+      next = gen.throw(err);
+      continue;
+    }
+    next = gen.next(value);
+  }
+}
+
+/**
+ * Runs a resumable computation synchronously.
+ * Each yielded value is passed back to the computation as-is.
+ * @template T The type of the result
+ * @param gen The resumable computation
+ * @returns The result
+ * @internal
+ */
+export function runSync<T>(gen: Resumable<T>): T {
+  let next = gen.next();
+  while (!next.done) {
+    next = gen.next(next.value);
+  }
+  return next.value;
+}
@@ -2,20 +2,38 @@
 // Imports
 //--------------------------------------------------------------------------------------------------
 import type {
+  BigIntRange,
   OpaqueOption,
   Requires,
   RequiresVal,
   OpaqueOptions,
   RequiresAll,
   RequiresOne,
+  RecordValue,
+  ExclusiveGroup,
 } from './options.js';
-import type { FormatArgs, FormattingFlags, MessageStyles } from './styles.js';
-import type { Concrete, NamingRules, Range } from './utils.js';
+import type { FormatArgs, FormattingFlags, MessageStyles, Theme } from './styles.js';
+import type { Concrete, NamingRules, Resumable } from './utils.js';
 
-import { tf, fg, ErrorItem, ConnectiveWord } from './enums.js';
-import { isOpt, getParamCount, getOptionNames, visitRequirements } from './options.js';
+import { tf, fg, ErrorItem, HelpItem, ConnectiveWord } from './enums.js';
+import {
+  isOpt,
+  getParamCount,
+  getOptionNames,
+  getUnitString,
+  visitRequirements,
+} from './options.js';
 import { style, TerminalString, ErrorMessage, WarnMessage } from './styles.js';
-import { findSimilar, getEntries, getValues, matchNamingRules } from './utils.js';
+import {
+  areEqual,
+  findSimilar,
+  getEntries,
+  getEnv,
+  getValues,
+  isThenable,
+  matchNamingRules,
+  mergeValues,
+} from './utils.js';
 
 //--------------------------------------------------------------------------------------------------
 // Constants
@@ -79,6 +97,39 @@ export const defaultConfig: ConcreteConfig = {
       'Variadic option %o may only appear as the last option in a cluster.',
     [ErrorItem.missingInlineParameter]: 'Option %o requires an inline parameter.',
     [ErrorItem.invalidInlineConstraint]: 'Inline constraint for option %o has no effect.',
+    [ErrorItem.missingResponseFile]: 'Could not find response file %s.',
+    [ErrorItem.circularResponseFile]: 'Response file %s references itself.',
+    [ErrorItem.missingConfigFile]: 'Could not find configuration file %s.',
+    [ErrorItem.invalidConfigFile]: 'Invalid configuration file %s(| at line %n).',
+    [ErrorItem.invalidConfigValue]: 'Invalid value for %o.',
+    [ErrorItem.ambiguousOption]: 'Ambiguous option %o1. Possible names are: %o2.',
+    [ErrorItem.invalidRecordPair]:
+      'Invalid parameter to %o: %s1. Value must be a key-value pair delimited by %s2.',
+    [ErrorItem.duplicateRecordKey]: 'Option %o has duplicate key %s.',
+    [ErrorItem.unknownGroupOption]: 'Exclusive group references unknown option %o.',
+    [ErrorItem.duplicateGroupOption]: 'Exclusive group has duplicate option %o.',
+    [ErrorItem.invalidGroupOption]:
+      'Invalid option %o in exclusive group. Option is always required.',
+    [ErrorItem.unsatisfiedGroup]:
+      '(Options %o are mutually exclusive|At least one of %o is required|Exactly one of %o is required).',
+    [ErrorItem.invalidLocalePhrase]:
+      'Invalid phrase %s2 in locale %s1. Format specifiers must match those of the original phrase.',
+    [ErrorItem.asyncCallback]:
+      'Option %o has an asynchronous callback, which cannot be used in synchronous parsing.',
+    [ErrorItem.invalidUnitValue]:
+      'Invalid parameter to %o: %s. Value must be a (duration|size|date).',
+    [ErrorItem.invalidBigIntValue]: 'Invalid parameter to %o: %s. Value must be an integer.',
+    [ErrorItem.missingPath]: 'Invalid parameter to %o: %s. Path does not exist.',
+    [ErrorItem.invalidPathKind]: 'Invalid parameter to %o: %s. Path must be a (file|directory).',
+    [ErrorItem.inaccessiblePath]:
+      'Invalid parameter to %o: %s. Path must be (readable|writable|readable and writable).',
+    [ErrorItem.invalidPathExtension]: 'Invalid parameter to %o: %s1. Allowed extensions are {%s2}.',
+    [ErrorItem.prefixOptionName]:
+      '%o: Option name %s1 is a prefix of other names: %s2. Its abbreviations are ambiguous.',
+    [ErrorItem.missingBuiltinModules]:
+      'Synchronous file access is not supported by this runtime. Use the asynchronous parse method.',
+    [ErrorItem.duplicateConfigFileOption]:
+      'Duplicate configuration file option %o1: previous was %o2.',
   },
   connectives: {
     [ConnectiveWord.and]: 'and',
@@ -93,6 +144,46 @@ export const defaultConfig: ConcreteConfig = {
     [ConnectiveWord.numberSep]: ',',
     [ConnectiveWord.stringQuote]: `'`,
   },
+  helpPhrases: {
+    [HelpItem.desc]: '%t',
+    [HelpItem.negationNames]: 'Can be negated with %o.',
+    [HelpItem.separator]: 'Values are delimited by (%s|%r).',
+    [HelpItem.paramCount]: 'Accepts (multiple|%n|at most %n|at least %n|between %n) parameters.',
+    [HelpItem.positional]: 'Accepts positional parameters(| that may be preceded by %o).',
+    [HelpItem.append]: 'May be specified multiple times.',
+    [HelpItem.trim]: 'Values will be trimmed.',
+    [HelpItem.case]: 'Values will be converted to (lowercase|uppercase).',
+    [HelpItem.conv]: 'Values will be converted with Math.%t.',
+    [HelpItem.enums]: 'Values must be one of {(%s|%n)}.',
+    [HelpItem.regex]: 'Values must match the regex %r.',
+    [HelpItem.range]: 'Values must be in the range [%n].',
+    [HelpItem.unique]: 'Duplicate values will be removed.',
+    [HelpItem.limit]: 'Element count is limited to %n.',
+    [HelpItem.requires]: 'Requires %p.',
+    [HelpItem.required]: 'Always required.',
+    [HelpItem.default]: 'Defaults to (%b|%s|%n|[%s]|[%n]|%v).',
+    [HelpItem.deprecated]: 'Deprecated for %t.',
+    [HelpItem.link]: 'Refer to %u for details.',
+    [HelpItem.envVar]: 'Can be specified through the %o environment variable.',
+    [HelpItem.requiredIf]: 'Required if %p.',
+    [HelpItem.clusterLetters]: 'Can be clustered with %s.',
+    [HelpItem.fallback]: 'Falls back to (%b|%s|%n|[%s]|[%n]|%v) if specified without parameter.',
+    [HelpItem.useNested]: 'Uses the next argument as the name of a nested command.',
+    [HelpItem.useFormat]: 'Uses the next argument as the name of a help format.',
+    [HelpItem.useFilter]: 'Uses the remaining arguments as option filter.',
+    [HelpItem.inline]: '(Disallows|Requires) inline parameters.',
+  },
+  titles: {
+    usage: 'Usage:',
+    groups: 'Options:',
+  },
+  locales: {},
+  locale: '',
+  theme: {
+    styles: {},
+    options: {},
+    heading: style(tf.bold),
+  },
 };
 
 /**
@@ -119,22 +210,58 @@ const namingConventions: NamingRules = {
 //--------------------------------------------------------------------------------------------------
 // Public types
 //--------------------------------------------------------------------------------------------------
+/**
+ * A locale bundle with the user-facing phrases and words of a language.
+ */
+export type LocaleBundle = {
+  /**
+   * The message phrases.
+   */
+  readonly phrases?: Readonly<Partial<Record<ErrorItem, string>>>;
+  /**
+   * The connective words.
+   */
+  readonly connectives?: Readonly<Partial<Record<ConnectiveWord, string>>>;
+  /**
+   * The phrases to be used for each kind of help item.
+   */
+  readonly helpPhrases?: Readonly<Partial<Record<HelpItem, string>>>;
+  /**
+   * The titles of the default help sections.
+   */
+  readonly titles?: {
+    /**
+     * The title of the usage section.
+     */
+    readonly usage?: string;
+    /**
+     * The title of the groups section.
+     */
+    readonly groups?: string;
+  };
+};
+
 /**
  * The validator configuration.
  */
-export type ValidatorConfig = {
+export type ValidatorConfig = LocaleBundle & {
   /**
    * The message styles.
    */
   readonly styles?: MessageStyles;
   /**
-   * The message phrases.
+   * The theme of error and help messages.
+   * Its message styles are overridden by those specified in the `styles` property.
    */
-  readonly phrases?: Readonly<Partial<Record<ErrorItem, string>>>;
+  readonly theme?: Theme;
   /**
-   * The connective words.
+   * The locale bundles, indexed by locale name (e.g., `pt-BR` or `pt`).
    */
-  readonly connectives?: Readonly<Partial<Record<ConnectiveWord, string>>>;
+  readonly locales?: Readonly<Record<string, LocaleBundle>>;
+  /**
+   * The name of the locale to use. (Defaults to the one specified in the environment)
+   */
+  readonly locale?: string;
 };
 
 /**
@@ -145,6 +272,10 @@ export type ValidationFlags = {
    * Whether the validation procedure should try to detect naming inconsistencies.
    */
   readonly detectNamingIssues?: true;
+  /**
+   * Whether the names of all options may be abbreviated, as with the parsing flag of the same name.
+   */
+  readonly abbreviate?: true;
 };
 
 /**
@@ -194,15 +325,21 @@ export class OptionValidator {
   readonly names = new Map<string, string>();
   readonly letters = new Map<string, string>();
   readonly positional: OptionInfo | undefined;
+  /**
+   * The resolved options of nested commands, for use in help messages.
+   */
+  readonly commands = new Map<OpaqueOption, OpaqueOptions>();
 
   /**
    * Creates an option validator based on a set of option definitions.
    * @param options The option definitions
    * @param config The validator configuration
+   * @param exclusive The exclusive groups
    */
   constructor(
     readonly options: OpaqueOptions,
     readonly config: ConcreteConfig = defaultConfig,
+    readonly exclusive: ReadonlyArray<ExclusiveGroup> = [],
   ) {
     for (const [key, option] of getEntries(this.options)) {
       registerNames(this.names, this.letters, key, option);
@@ -214,6 +351,26 @@ export class OptionValidator {
     }
   }
 
+  /**
+   * Gets the option names that may be abbreviated with a prefix.
+   * The positional marker is not considered, nor is a prefix that consists only of dashes.
+   * @param prefix The name prefix
+   * @param all True if the names of all options may be abbreviated
+   * @returns The list of matching names
+   */
+  abbreviations(prefix: string, all = false): Array<string> {
+    if (!prefix.match(/[^-]/)) {
+      return [];
+    }
+    const marker = this.positional?.[3];
+    return [...this.names]
+      .filter(
+        ([name, key]) =>
+          name !== marker && name.startsWith(prefix) && (all || this.options[key].abbreviate),
+      )
+      .map(([name]) => name);
+  }
+
   /**
    * Validates all options' definitions, including command options recursively.
    * @param flags The validation flags
@@ -223,7 +380,7 @@ export class OptionValidator {
     const warning = new WarnMessage();
     const visited = new Set<OpaqueOptions>();
     const context: ValidateContext = [this.config, this.options, flags, warning, visited, ''];
-    await validate(context);
+    await validate(context, this.exclusive);
     return warning.length ? { warning } : {};
   }
 
@@ -240,11 +397,15 @@ export class OptionValidator {
     const normalizeFn =
       typeof value === 'string'
         ? normalizeString
-        : typeof value === 'number'
+        : typeof value === 'number' || typeof value === 'bigint'
           ? normalizeNumber
-          : Array.isArray(value)
-            ? normalizeArray
-            : undefined;
+          : value instanceof Date
+            ? normalizeDate
+            : Array.isArray(value)
+              ? normalizeArray
+              : option.type === 'record' && typeof value === 'object' && value
+                ? normalizeRecord
+                : undefined;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     return normalizeFn ? (normalizeFn as any)(this.config, option, name, value) : value;
   }
@@ -270,21 +431,78 @@ export class OptionValidator {
   error(kind: ErrorItem, args?: FormatArgs, flags?: FormattingFlags): ErrorMessage {
     return new ErrorMessage(this.format(kind, args, flags));
   }
+
+  /**
+   * Resolves the result of an option callback from within a resumable computation.
+   * @param name The option name
+   * @param result The callback result
+   * @param sync True if the computation is running synchronously
+   * @yields The values to be resolved
+   * @returns The resolved result
+   * @throws If the computation is running synchronously and the result is a thenable
+   * @internal
+   */
+  *settle<T>(name: string, result: T | PromiseLike<T>, sync = false): Resumable<T> {
+    if (!sync) {
+      const value = yield result;
+      return value as T;
+    }
+    if (isThenable(result)) {
+      result.then(undefined, () => {}); // avoid an unhandled rejection
+      throw this.error(ErrorItem.asyncCallback, { o: name });
+    }
+    return result as T;
+  }
 }
 
 //--------------------------------------------------------------------------------------------------
 // Functions
 //--------------------------------------------------------------------------------------------------
+/**
+ * Selects a locale bundle from the validator configuration.
+ * The locale name is taken from the configuration or from the `LC_ALL`, `LC_MESSAGES` or `LANG`
+ * environment variables, in this order. If there is no bundle for the full name, then the language
+ * part of the name is tried (e.g., `pt` for `pt_BR.UTF-8`).
+ * @param config The validator configuration
+ * @returns The locale bundle, if any
+ * @internal
+ */
+export function selectLocale(config: ValidatorConfig): LocaleBundle | undefined {
+  const locales = config.locales ?? {};
+  const locale = config.locale || getEnv('LC_ALL') || getEnv('LC_MESSAGES') || getEnv('LANG') || '';
+  const name = locale.replace(/[.@].*$/, '').replace('_', '-');
+  return locales[name] ?? locales[name.split('-')[0]];
+}
+
+/**
+ * Resolves the validator configuration with the values of the selected locale and the theme.
+ * Values from the configuration take precedence over those of the locale (or the theme), which in
+ * turn take precedence over the default ones.
+ * @param config The validator configuration
+ * @returns The concrete configuration
+ * @internal
+ */
+export function resolveConfig(config: ValidatorConfig): ConcreteConfig {
+  const merged: Record<string, unknown> = { ...config };
+  for (const [key, val] of getEntries(selectLocale(config) ?? {})) {
+    merged[key] = { ...val, ...config[key as keyof LocaleBundle] };
+  }
+  merged['styles'] = { ...config.theme?.styles, ...config.styles };
+  return mergeValues(defaultConfig, merged);
+}
+
 /**
  * Validates all options' definitions, including command options recursively.
  * @param context The validation context
- * @throws On duplicate positional option
+ * @param exclusive The exclusive groups
+ * @throws On duplicate positional option or duplicate configuration file option
  */
-async function validate(context: ValidateContext) {
+async function validate(context: ValidateContext, exclusive: ReadonlyArray<ExclusiveGroup> = []) {
   const [config, options, flags, , , prefix] = context;
   const names = new Map<string, string>();
   const letters = new Map<string, string>();
   let positional = ''; // to check for duplicate positional options
+  let configFile = ''; // to check for duplicate configuration file options
   for (const [key, option] of getEntries(options)) {
     validateNames(context, names, letters, key, option);
     await validateOption(context, key, option);
@@ -295,12 +513,61 @@ async function validate(context: ValidateContext) {
       }
       positional = key;
     }
+    if (option.configFile) {
+      if (configFile) {
+        const args = { o1: prefix + key, o2: prefix + configFile };
+        throw error(config, ErrorItem.duplicateConfigFileOption, args);
+      }
+      configFile = key;
+    }
+  }
+  for (const group of exclusive) {
+    validateGroup(context, group);
   }
+  if (!prefix) {
+    for (const [name, bundle] of getEntries(config.locales)) {
+      validateLocale(config, name, bundle);
+    }
+  }
+  detectAbbreviationIssues(context, names);
   if (flags.detectNamingIssues) {
     detectNamingIssues(context, names.keys());
   }
 }
 
+/**
+ * Validates a locale bundle.
+ * @param config The validator configuration
+ * @param name The locale name
+ * @param bundle The locale bundle
+ * @throws On translated phrase with format specifiers different from the original phrase
+ */
+function validateLocale(config: ConcreteConfig, name: string, bundle: LocaleBundle) {
+  const pairs: Array<
+    [Partial<Record<number, string>>, Partial<Record<number, string>> | undefined]
+  > = [
+    [defaultConfig.phrases, bundle.phrases],
+    [defaultConfig.helpPhrases, bundle.helpPhrases],
+  ];
+  for (const [originals, translated] of pairs) {
+    for (const [item, phrase] of getEntries(translated ?? {})) {
+      const specs = getSpecifiers(originals[Number(item)] ?? '');
+      if (!areEqual(getSpecifiers(phrase ?? ''), specs, true)) {
+        throw error(config, ErrorItem.invalidLocalePhrase, { s1: name, s2: phrase });
+      }
+    }
+  }
+}
+
+/**
+ * Gets the distinct format specifiers of a phrase.
+ * @param phrase The phrase
+ * @returns The list of specifiers
+ */
+function getSpecifiers(phrase: string): Array<string> {
+  return [...new Set(phrase.match(/%[a-z][0-9]?/g))];
+}
+
 /**
  * Registers an option's names.
  * @param nameToKey The map of option names to keys
@@ -379,6 +646,31 @@ function validateNames(
   }
 }
 
+/**
+ * Detects option names that make abbreviations ambiguous, i.e., names that may be abbreviated and
+ * are prefixes of the names of other options that may also be abbreviated.
+ * @param context The validation context
+ * @param names The map of option names to keys
+ */
+function detectAbbreviationIssues(context: ValidateContext, names: Map<string, string>) {
+  const [config, options, flags, warning, , prefix] = context;
+  const optionSep = config.connectives[ConnectiveWord.optionSep];
+  // the positional marker cannot be abbreviated
+  const abbreviated = [...names].filter(
+    ([name, key]) =>
+      (flags.abbreviate || options[key].abbreviate) && name !== options[key].positional,
+  );
+  for (const [name, key] of abbreviated) {
+    const others = abbreviated
+      .filter(([other, otherKey]) => otherKey !== key && other.startsWith(name))
+      .map(([other]) => other);
+    if (others.length) {
+      const args = { o: prefix.slice(0, -1), s1: name, s2: others };
+      warning.push(format(config, ErrorItem.prefixOptionName, args, { sep: optionSep }));
+    }
+  }
+}
+
 /**
  * Detects option naming issues.
  * @param context The validation context
@@ -475,6 +767,31 @@ function getNamesInEachSlot(options: OpaqueOptions): Array<Array<string>> {
   return result;
 }
 
+/**
+ * Validates an exclusive group.
+ * @param context The validation context
+ * @param group The exclusive group
+ * @throws On unknown option, duplicate option or option that is always required
+ */
+function validateGroup(context: ValidateContext, group: ExclusiveGroup) {
+  const [config, options, , , , prefix] = context;
+  const multiple = group.kind === 'atLeastOne';
+  const keys = new Set<string>();
+  for (const key of group.keys) {
+    const prefixedKey = prefix + key;
+    if (!Object.hasOwn(options, key)) {
+      throw error(config, ErrorItem.unknownGroupOption, { o: prefixedKey });
+    }
+    if (keys.has(key)) {
+      throw error(config, ErrorItem.duplicateGroupOption, { o: prefixedKey });
+    }
+    if (!multiple && options[key].required) {
+      throw error(config, ErrorItem.invalidGroupOption, { o: prefixedKey });
+    }
+    keys.add(key);
+  }
+}
+
 /**
  * Validates an option's requirements.
  * @param context The validation context
@@ -512,7 +829,8 @@ async function validateOption(context: ValidateContext, key: string, option: Opa
       if (!visited.has(resolved)) {
         visited.add(resolved);
         // create a new context, to avoid changing the behavior of functions up in the call stack
-        await validate([config, resolved, flags, warning, visited, prefixedKey + '.']);
+        const cmdPrefix = prefixedKey + '.';
+        await validate([config, resolved, flags, warning, visited, cmdPrefix], option.exclusive);
       }
     }
   }
@@ -566,7 +884,7 @@ function validateRequirement(
   if (requiredKey === key) {
     throw error(config, ErrorItem.invalidSelfRequirement, { o: prefixedKey });
   }
-  if (!(requiredKey in options)) {
+  if (!Object.hasOwn(options, requiredKey)) {
     throw error(config, ErrorItem.unknownRequiredOption, { o: prefixedKey });
   }
   const option = options[requiredKey];
@@ -595,7 +913,7 @@ function validateRequirement(
  */
 function validateConstraints(config: ConcreteConfig, key: string, option: OpaqueOption) {
   /** @ignore */
-  function checkRange(range: Range, kind: ErrorItem, checkMin = false) {
+  function checkRange(range: BigIntRange, kind: ErrorItem, checkMin = false) {
     const [min, max] = range;
     // handles NaN
     if (!(min < max) || (checkMin && min < 0)) {
@@ -642,7 +960,7 @@ function validateConstraints(config: ConcreteConfig, key: string, option: Opaque
 function validateValue(config: ConcreteConfig, key: string, option: OpaqueOption, value: unknown) {
   /** @ignore */
   function assert<T>(value: unknown, type: string): asserts value is T {
-    if (typeof value !== type) {
+    if (type === 'Date' ? !(value instanceof Date) : typeof value !== type) {
       throw error(config, ErrorItem.incompatibleRequiredValue, { o: key, v: value, s: type });
     }
   }
@@ -662,14 +980,23 @@ function validateValue(config: ConcreteConfig, key: string, option: OpaqueOption
       assert<boolean>(value, 'boolean');
       break;
     case 'string':
+    case 'path':
       assert<string>(value, 'string');
       call(normalizeString, value);
       break;
     case 'number':
+    case 'count':
+    case 'duration':
+    case 'size':
       assert<number>(value, 'number');
       call(normalizeNumber, value);
       break;
-    case 'strings': {
+    case 'bigint':
+      assert<bigint>(value, 'bigint');
+      call(normalizeNumber, value);
+      break;
+    case 'strings':
+    case 'paths': {
       assert<Array<string>>(value, 'object');
       call(
         normalizeArray,
@@ -677,7 +1004,13 @@ function validateValue(config: ConcreteConfig, key: string, option: OpaqueOption
       );
       break;
     }
-    case 'numbers': {
+    case 'date':
+      assert<Date>(value, 'Date');
+      call(normalizeDate, value);
+      break;
+    case 'numbers':
+    case 'durations':
+    case 'sizes': {
       assert<Array<number>>(value, 'object');
       call(
         normalizeArray,
@@ -685,6 +1018,26 @@ function validateValue(config: ConcreteConfig, key: string, option: OpaqueOption
       );
       break;
     }
+    case 'bigints': {
+      assert<Array<bigint>>(value, 'object');
+      call(
+        normalizeArray,
+        value.map((val) => (assert<bigint>(val, 'bigint'), call(normalizeNumber, val))),
+      );
+      break;
+    }
+    case 'dates': {
+      assert<Array<Date>>(value, 'object');
+      call(
+        normalizeArray,
+        value.map((val) => (assert<Date>(val, 'Date'), call(normalizeDate, val))),
+      );
+      break;
+    }
+    case 'record':
+      assert<RecordValue>(value, 'object');
+      call(normalizeRecord, value);
+      break;
   }
 }
 
@@ -724,7 +1077,9 @@ function normalizeString(
 }
 
 /**
- * Normalizes the value of a number option and checks its validity against any constraint.
+ * Normalizes the value of a number or bigint option and checks its validity against any constraint.
+ * The math conversion does not apply to bigints, which are rounded when parsed.
+ * @template T The number data type
  * @param config The validator configuration
  * @param option The option definition
  * @param name The option name (as specified on the command-line)
@@ -732,14 +1087,14 @@ function normalizeString(
  * @returns The normalized number
  * @throws On value not satisfying the specified enumeration or range constraint
  */
-function normalizeNumber(
+function normalizeNumber<T extends number | bigint>(
   config: ConcreteConfig,
   option: OpaqueOption,
   name: string,
-  value: number,
-): number {
-  if (option.conv) {
-    value = Math[option.conv](value);
+  value: T,
+): T {
+  if (option.conv && typeof value === 'number') {
+    value = Math[option.conv](value) as T;
   }
   const enums = option.enums;
   if (enums && !enums.includes(value)) {
@@ -747,14 +1102,87 @@ function normalizeNumber(
     const sep = config.connectives[ConnectiveWord.numberSep];
     throw error(config, ErrorItem.enumsConstraintViolation, args, { alt: 1, sep });
   }
+  checkValueRange(config, option, name, value);
+  return value;
+}
+
+/**
+ * Normalizes the value of a date option and checks its validity against any constraint.
+ * @param config The validator configuration
+ * @param option The option definition
+ * @param name The option name (as specified on the command-line)
+ * @param value The option value
+ * @returns The normalized date
+ * @throws On value not satisfying the specified range constraint
+ */
+function normalizeDate(
+  config: ConcreteConfig,
+  option: OpaqueOption,
+  name: string,
+  value: Date,
+): Date {
+  checkValueRange(config, option, name, value.getTime());
+  return value;
+}
+
+/**
+ * Checks the validity of a number, duration, size or date value against the range constraint.
+ * Values with units are displayed in their human-readable form.
+ * @param config The validator configuration
+ * @param option The option definition
+ * @param name The option name (as specified on the command-line)
+ * @param value The numeric value (or timestamp, in the case of dates)
+ * @throws On value not satisfying the specified range constraint
+ */
+function checkValueRange(
+  config: ConcreteConfig,
+  option: OpaqueOption,
+  name: string,
+  value: number | bigint,
+) {
   const range = option.range;
   // handles NaN
   if (range && !(value >= range[0] && value <= range[1])) {
-    const args = { o: name, n1: value, n2: option.range };
+    const [n1, n2] = isOpt.unit(option)
+      ? [getUnitString(option, value), range.map((val) => getUnitString(option, val))]
+      : [value, range];
+    const args = { o: name, n1, n2 };
     const sep = config.connectives[ConnectiveWord.numberSep];
     throw error(config, ErrorItem.rangeConstraintViolation, args, { sep });
   }
-  return value;
+}
+
+/**
+ * Normalizes the value of a record option and checks its validity against any constraint.
+ * The keys are checked against the enums and regex constraints, while the values are normalized
+ * according to their data type.
+ * @param config The validator configuration
+ * @param option The option definition
+ * @param name The option name (as specified on the command-line)
+ * @param value The option value
+ * @returns The normalized record
+ * @throws On keys or values not satisfying the specified constraints
+ */
+function normalizeRecord(
+  config: ConcreteConfig,
+  option: OpaqueOption,
+  name: string,
+  value: RecordValue,
+): RecordValue {
+  /** @ignore */
+  function norm(val: string | number): string | number {
+    return typeof val === 'number'
+      ? normalizeNumber(config, valueOption, name, val)
+      : normalizeString(config, valueOption, name, val);
+  }
+  const keyOption: OpaqueOption = { type: 'string', enums: option.enums, regex: option.regex };
+  const valueOption: OpaqueOption = { ...option, enums: undefined, regex: undefined };
+  const result: RecordValue = Object.create(null); // do not drop keys like `__proto__`
+  for (const [key, val] of getEntries(value)) {
+    normalizeString(config, keyOption, name, key);
+    result[key] = Array.isArray(val) ? val.map(norm) : norm(val);
+  }
+  return result;
 }
 
 /**
@@ -766,14 +1194,19 @@ function normalizeNumber(
  * @returns The normalized array
  * @throws On value not satisfying the specified limit constraint
  */
-function normalizeArray<T extends string | number>(
+function normalizeArray<T extends string | number | bigint | Date>(
   config: ConcreteConfig,
   option: OpaqueOption,
   name: string,
   value: Array<T>,
 ): Array<T> {
   if (option.unique) {
-    const unique = new Set(value);
+    // compare dates by their timestamps
+    const keys = new Set<unknown>();
+    const unique = value.filter((val) => {
+      const key = val instanceof Date ? val.getTime() : val;
+      return !keys.has(key) && !!keys.add(key);
+    });
     value.length = 0;
     value.push(...unique);
   }
@@ -0,0 +1,293 @@
+import { describe, expect, it } from 'vitest';
+import type { Options } from '../lib';
+import * as lib from '../lib';
+import { OptionValidator, generateCompletion, isCompletionShell } from '../lib';
+import './utils.spec'; // initialize globals
+
+describe('isCompletionShell', () => {
+  it('should recognize the supported shells', () => {
+    expect(isCompletionShell('bash')).toBeTruthy();
+    expect(isCompletionShell('zsh')).toBeTruthy();
+    expect(isCompletionShell('fish')).toBeTruthy();
+    expect(isCompletionShell('pwsh')).toBeTruthy();
+    expect(isCompletionShell('tcsh')).toBeFalsy();
+  });
+});
+
+describe('index', () => {
+  it('should not export internal completion functions', () => {
+    expect(lib).not.toHaveProperty('getCompletionShells');
+    expect(lib).not.toHaveProperty('buildCompletion');
+  });
+});
+
+describe('generateCompletion', () => {
+  const command = {
+    type: 'command',
+    names: ['cmd'],
+    options: (): Options => ({
+      string: {
+        type: 'string',
+        names: ['-s'],
+        enums: ['a b', `c'd`],
+      },
+      command,
+    }),
+  } as const satisfies Options[string];
+  const options = {
+    boolean: {
+      type: 'boolean',
+      names: ['-b', null],
+      truthNames: ['yes'],
+      falsityNames: ['no'],
+    },
+    number: {
+      type: 'number',
+      names: ['-n'],
+    },
+    string: {
+      type: 'string',
+      names: ['-s'],
+      complete: () => [],
+    },
+    strings: {
+      type: 'strings',
+      preferredName: 'strings',
+      enums: ['one', 'two'],
+      positional: '--',
+    },
+    flag: {
+      type: 'flag',
+      names: ['-f'],
+      negationNames: ['-no-f'],
+    },
+    completion: {
+      type: 'completion',
+      names: ['--completion'],
+    },
+    command,
+  } as const satisfies Options;
+
+  it('should handle zero options', async () => {
+    const message = await generateCompletion(new OptionValidator({}), 'bash', 'prog');
+    expect(message).toContain('        0) return 0 ;;');
+  });
+
+  it('should generate a bash script', async () => {
+    const message = await generateCompletion(new OptionValidator(options), 'bash', 'my-prog');
+    expect(message.message).toEqual(
+      `# bash completion for my-prog
+_my_prog_complete() {
+  local cur="\${COMP_WORDS[COMP_CWORD]}" prev='' level=0 callback=0 word i
+  local -a words=()
+  for ((i = 1; i < COMP_CWORD; i++)); do
+    word="\${COMP_WORDS[i]}"
+    case "$level:$word" in
+      '0:cmd') level=1 ;;
+      '1:cmd') level=1 ;;
+    esac
+    prev="$word"
+  done
+  case "$level:$prev" in
+    '0:-b') words=('yes' 'no') ;;
+    '0:-n') return 0 ;;
+    '0:-s') callback=1 ;;
+    '0:--completion') words=('bash' 'zsh' 'fish' 'pwsh') ;;
+    '1:-s') words=('a b' 'c'\\''d') ;;
+    *)
+      case "$level" in
+        0) words=('-b' '-n' '-s' '--' '-f' '-no-f' '--completion' 'cmd' 'one' 'two') ;;
+        1) words=('-s' 'cmd') ;;
+      esac
+      ;;
+  esac
+  if ((callback)); then
+    mapfile -t words < <(COMP_LINE="$COMP_LINE" COMP_POINT="$COMP_POINT" "\${COMP_WORDS[0]}" 2>/dev/null)
+  fi
+  for word in "\${words[@]}"; do
+    [[ "$word" == "$cur"* ]] && COMPREPLY+=("$word")
+  done
+  return 0
+}
+complete -o default -F _my_prog_complete 'my-prog'`,
+    );
+  });
+
+  it('should generate a zsh script', async () => {
+    const message = await generateCompletion(new OptionValidator(options), 'zsh', 'prog');
+    expect(message[0]).toEqual('#compdef prog');
+    expect(message).toContain(`      ('1:cmd') level=1 ;;`);
+    expect(message).toContain(`    ('0:-n') _files; return ;;`);
+    expect(message).toContain(`    ('0:-s') callback=1 ;;`);
+    expect(message).toContain(`    ('1:-s') list=('a b' 'c'\\''d') ;;`);
+    expect(message.at(-1)).toEqual(`compdef _prog_complete 'prog'`);
+  });
+
+  it('should generate a fish script', async () => {
+    const message = await generateCompletion(new OptionValidator(options), 'fish', 'prog');
+    expect(message[0]).toEqual('# fish completion for prog');
+    expect(message).toContain(`        case '1:-s'`);
+    expect(message).toContain(`            set words 'a b' 'c\\'d'`);
+    expect(message).toContain(`            __fish_complete_path (commandline -ct)`);
+    expect(message.at(-1)).toEqual(`complete -c 'prog' -f -a '(__prog_complete)'`);
+  });
+
+  it('should generate a PowerShell script', async () => {
+    const message = await generateCompletion(new OptionValidator(options), 'pwsh', 'prog');
+    expect(message[0]).toEqual('# PowerShell completion for prog');
+    expect(message).toContain(`            '0:cmd' { $level = 1 }`);
+    expect(message).toContain(`        '1:-s' { $words = @('a b', 'c''d') }`);
+    expect(message).toContain(`        '0:-s' { $callback = $true }`);
+    expect(message.at(-1)).toEqual('}');
+  });
+
+  it('should call back into the program for a positional option with a complete callback', async () => {
+    const options = {
+      strings: {
+        type: 'strings',
+        positional: true,
+        complete: () => [],
+      },
+    } as const satisfies Options;
+    const message = await generateCompletion(new OptionValidator(options), 'bash', 'prog');
+    expect(message).toContain('        0) callback=1 ;;');
+  });
+
+  describe('with a simple command', () => {
+    const options = {
+      flag: {
+        type: 'flag',
+        names: ['-f'],
+      },
+      string: {
+        type: 'string',
+        names: ['-s'],
+        enums: ['a', 'b'],
+      },
+      command: {
+        type: 'command',
+        names: ['cmd'],
+        options: {
+          flag: {
+            type: 'flag',
+            names: ['-g'],
+          },
+        },
+      },
+    } as const satisfies Options;
+
+    it('should generate a zsh script with the expected content', async () => {
+      const message = await generateCompletion(new OptionValidator(options), 'zsh', 'prog');
+      expect(message.message).toEqual(
+        `#compdef prog
+_prog_complete() {
+  local prev='' level=0 callback=0 word i line
+  local -a list
+  for ((i = 2; i < CURRENT; i++)); do
+    word="\${words[i]}"
+    case "$level:$word" in
+      ('0:cmd') level=1 ;;
+    esac
+    prev="$word"
+  done
+  case "$level:$prev" in
+    ('0:-s') list=('a' 'b') ;;
+    (*)
+      case "$level" in
+        (0) list=('-f' '-s' 'cmd') ;;
+        (1) list=('-g') ;;
+      esac
+      ;;
+  esac
+  if ((callback)); then
+    line="\${(j: :)words[1,CURRENT]}"
+    list=(\${(f)"$(COMP_LINE="$line" COMP_POINT="\${#line}" "\${words[1]}" 2>/dev/null)"})
+  fi
+  compadd -- "\${list[@]}"
+}
+compdef _prog_complete 'prog'`,
+      );
+    });
+
+    it('should generate a fish script with the expected content', async () => {
+      const message = await generateCompletion(new OptionValidator(options), 'fish', 'prog');
+      expect(message.message).toEqual(
+        `# fish completion for prog
+function __prog_complete
+    set -l tokens (commandline -opc)
+    set -l level 0
+    set -l prev ''
+    set -l callback 0
+    set -l words
+    for word in $tokens[2..-1]
+        switch "$level:$word"
+            case '0:cmd'
+                set level 1
+        end
+        set prev $word
+    end
+    switch "$level:$prev"
+        case '0:-s'
+            set words 'a' 'b'
+        case '*'
+            switch $level
+                case 0
+                    set words '-f' '-s' 'cmd'
+                case 1
+                    set words '-g'
+            end
+    end
+    if test $callback -eq 1
+        set -l line (commandline -cp)
+        set words (env COMP_LINE="$line" COMP_POINT=(string length -- "$line") $tokens[1] 2>/dev/null)
+    end
+    if set -q words[1]
+        printf '%s\\n' $words
+    end
+end
+complete -c 'prog' -f -a '(__prog_complete)'`,
+      );
+    });
+
+    it('should generate a PowerShell script with the expected content', async () => {
+      const message = await generateCompletion(new OptionValidator(options), 'pwsh', 'prog');
+      expect(message.message).toEqual(
+        `# PowerShell completion for prog
+Register-ArgumentCompleter -Native -CommandName 'prog' -ScriptBlock {
+    param($wordToComplete, $commandAst, $cursorPosition)
+    $tokens = @($commandAst.CommandElements |
+        Where-Object { $_.Extent.EndOffset -lt $cursorPosition } |
+        ForEach-Object { $_.ToString() })
+    $level = 0
+    $prev = ''
+    $callback = $false
+    $words = @()
+    foreach ($word in ($tokens | Select-Object -Skip 1)) {
+        switch -CaseSensitive ("\${level}:$word") {
+            '0:cmd' { $level = 1 }
+        }
+        $prev = $word
+    }
+    switch -CaseSensitive ("\${level}:$prev") {
+        '0:-s' { $words = @('a', 'b') }
+        default {
+            switch ($level) {
+                0 { $words = @('-f', '-s', 'cmd') }
+                1 { $words = @('-g') }
+            }
+        }
+    }
+    if ($callback) {
+        $env:COMP_LINE = $commandAst.ToString()
+        $env:COMP_POINT = $cursorPosition - $commandAst.Extent.StartOffset
+        $words = @(& $tokens[0] 2>$null)
+        Remove-Item Env:COMP_LINE, Env:COMP_POINT
+    }
+    $words | Where-Object { $_.StartsWith($wordToComplete) } | ForEach-Object {
+        [System.Management.Automation.CompletionResult]::new($_, $_, 'ParameterValue', $_)
+    }
+}`,
+      );
+    });
+  });
+});
@@ -140,6 +140,36 @@ describe('AnsiFormatter', () => {
       );
     });
 
+    it('should handle a durations option with a range constraint', () => {
+      const options = {
+        durations: {
+          type: 'durations',
+          names: ['-t', '--durations'],
+          desc: 'A durations option.',
+          range: [0, 86400000],
+        },
+      } as const satisfies Options;
+      const message = new AnsiFormatter(new OptionValidator(options)).format();
+      expect(message.wrap()).toEqual(
+        `  -t, --durations  <durations>...  A durations option. Accepts multiple parameters. Values must be in the range [0ms, 1d].\n`,
+      );
+    });
+
+    it('should handle a date option with a range constraint', () => {
+      const options = {
+        date: {
+          type: 'date',
+          names: ['-d', '--date'],
+          desc: 'A date option.',
+          range: [-Infinity, Date.parse('2030-06-01T12:30:00Z')],
+        },
+      } as const satisfies Options;
+      const message = new AnsiFormatter(new OptionValidator(options)).format();
+      expect(message.wrap()).toEqual(
+        `  -d, --date  <date>  A date option. Values must be in the range [-Infinity, 2030-06-01T12:30:00Z].\n`,
+      );
+    });
+
     it('should handle a variadic strings option that has an element count constraint', () => {
       const options = {
         strings: {
@@ -251,5 +251,80 @@ describe('AnsiFormatter', () => {
         `  -ns, --numbers  <numbers>...  A numbers option. Accepts multiple parameters. Defaults to <() => [1, 2]>.\n`,
       );
     });
+
+    it('should handle a variadic bigints option with a default value', () => {
+      const options = {
+        bigints: {
+          type: 'bigints',
+          names: ['-bs', '--bigints'],
+          desc: 'A bigints option.',
+          default: [1n, 9007199254740993n],
+        },
+      } as const satisfies Options;
+      const message = new AnsiFormatter(new OptionValidator(options)).format();
+      expect(message.wrap()).toEqual(
+        `  -bs, --bigints  <bigints>...  A bigints option. Accepts multiple parameters. Defaults to [1, 9007199254740993].\n`,
+      );
+    });
+
+    it('should handle a duration option with a default value', () => {
+      const options = {
+        duration: {
+          type: 'duration',
+          names: ['-t', '--timeout'],
+          desc: 'A duration option.',
+          default: 5400500,
+        },
+      } as const satisfies Options;
+      const message = new AnsiFormatter(new OptionValidator(options)).format();
+      expect(message.wrap()).toEqual(
+        `  -t, --timeout  <duration>  A duration option. Defaults to 1h30m500ms.\n`,
+      );
+    });
+
+    it('should handle a duration option with a negative default value', () => {
+      const options = {
+        duration: {
+          type: 'duration',
+          names: ['-t', '--offset'],
+          desc: 'A duration option.',
+          default: -5400500,
+        },
+      } as const satisfies Options;
+      const message = new AnsiFormatter(new OptionValidator(options)).format();
+      expect(message.wrap()).toEqual(
+        `  -t, --offset  <duration>  A duration option. Defaults to -1h30m500ms.\n`,
+      );
+    });
+
+    it('should handle a variadic sizes option with a default value', () => {
+      const options = {
+        sizes: {
+          type: 'sizes',
+          names: ['-s', '--sizes'],
+          desc: 'A sizes option.',
+          default: [536870912, 1500, 1.5],
+        },
+      } as const satisfies Options;
+      const message = new AnsiFormatter(new OptionValidator(options)).format();
+      expect(message.wrap()).toEqual(
+        `  -s, --sizes  <sizes>...  A sizes option. Accepts multiple parameters. Defaults to [512MiB, 1500B, 1.5B].\n`,
+      );
+    });
+
+    it('should handle a date option with a default value', () => {
+      const options = {
+        date: {
+          type: 'date',
+          names: ['-d', '--date'],
+          desc: 'A date option.',
+          default: new Date('2024-01-01T10:00:00Z'),
+        },
+      } as const satisfies Options;
+      const message = new AnsiFormatter(new OptionValidator(options)).format();
+      expect(message.wrap()).toEqual(
+        `  -d, --date  <date>  A date option. Defaults to 2024-01-01T10:00:00Z.\n`,
+      );
+    });
   });
 });
@@ -1,7 +1,8 @@
 import { describe, expect, it } from 'vitest';
 import type { Options, FormatterConfig, HelpSections } from '../../lib';
-import { OptionValidator, style, tf, HelpItem } from '../../lib';
-import { JsonFormatter, CsvFormatter, MdFormatter } from '../../lib';
+import { OptionValidator, style, tf, fg, bg, fg8, fg24, bg24, HelpItem } from '../../lib';
+import { JsonFormatter, CsvFormatter, MdFormatter, ManFormatter, HtmlFormatter } from '../../lib';
+import { createFormatter, isHelpFormat } from '../../lib';
 import '../utils.spec'; // initialize globals
 
 describe('JsonFormatter', () => {
@@ -25,6 +26,39 @@ describe('JsonFormatter', () => {
       expect(formatter.format('group').message).toEqual(expected);
       expect(formatter.format('group').message).toEqual(expected); // <<-- keep this
     });
+
+    it('should handle a bigint option with a default value and a range constraint', () => {
+      const options = {
+        bigint: {
+          type: 'bigint',
+          names: ['-b'],
+          range: [0, 2n ** 64n],
+          default: 9007199254740993n,
+        },
+      } as const satisfies Options;
+      const formatter = new JsonFormatter(new OptionValidator(options));
+      expect(formatter.format().message).toEqual(
+        `[{"type":"bigint","names":["-b"],"range":[0,"18446744073709551616"],"default":"9007199254740993","preferredName":"-b"}]`,
+      );
+    });
+
+    it('should handle a flag option with 24-bit colors in the description', () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+          desc: `A ${style(fg24('#ff8800'), bg24(0, 10, 255), tf.bold)}flag${style(tf.clear)}.`,
+        },
+      } as const satisfies Options;
+      const config: FormatterConfig = { items: [HelpItem.desc] };
+      const formatter = new HtmlFormatter(new OptionValidator(options), config);
+      expect(formatter.format().message).toEqual(
+        `<table>\n` +
+          `<tr><td><span class="fg-13">-f</span></td><td></td>` +
+          `<td>A <span class="fg-rgb-ff8800 bg-rgb-000aff bold">flag</span>.</td></tr>\n` +
+          `</table>`,
+      );
+    });
   });
 
   describe('sections', () => {
@@ -49,6 +83,52 @@ describe('JsonFormatter', () => {
       expect(formatter.sections(sections).message).toEqual(expected);
       expect(formatter.sections(sections).message).toEqual(expected); // <<-- keep this
     });
+
+    it('should handle a usage section with synopses', () => {
+      const options = {
+        string: {
+          type: 'string',
+          names: ['-s'],
+        },
+        flag: {
+          type: 'flag',
+          names: ['-f', '--flag'],
+        },
+      } as const satisfies Options;
+      const formatter = new JsonFormatter(new OptionValidator(options));
+      const sections: HelpSections = [
+        {
+          type: 'usage',
+          synopses: [
+            { name: 'string', filter: ['string'], required: ['string'] },
+            { name: 'flag', filter: ['flag'], comment: '# a flag' },
+          ],
+        },
+      ];
+      const expected =
+        `[{"type":"synopsis","name":"string","usage":"prog -s <string>"},` +
+        `{"type":"synopsis","name":"flag","usage":"prog [(-f|--flag)] # a flag"}]`;
+      expect(formatter.sections(sections, 'prog').message).toEqual(expected);
+    });
+
+    it('should distinguish synopses from option entries', () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+        },
+      } as const satisfies Options;
+      const formatter = new JsonFormatter(new OptionValidator(options));
+      const sections: HelpSections = [
+        { type: 'usage', synopses: [{ name: 'flag' }] },
+        { type: 'groups' },
+      ];
+      const entries = JSON.parse(formatter.sections(sections, 'prog').message);
+      expect(entries).toEqual([
+        { type: 'synopsis', name: 'flag', usage: 'prog [-f]' },
+        { type: 'flag', names: ['-f'], preferredName: '-f' },
+      ]);
+    });
   });
 });
 
@@ -157,5 +237,416 @@ describe('MdFormatter', () => {
       expect(formatter.sections(sections).message).toEqual(expected);
       expect(formatter.sections(sections).message).toEqual(expected); // <<-- keep this
     });
+
+    it('should handle a usage section with synopses', () => {
+      const options = {
+        string: {
+          type: 'string',
+          names: ['-s'],
+        },
+        flag: {
+          type: 'flag',
+          names: ['-f', '--flag'],
+        },
+      } as const satisfies Options;
+      const formatter = new MdFormatter(new OptionValidator(options));
+      const sections: HelpSections = [
+        {
+          type: 'usage',
+          title: 'Usage',
+          synopses: [
+            { name: 'string', filter: ['string'], required: ['string'] },
+            { name: 'flag', filter: ['flag'] },
+          ],
+        },
+      ];
+      const expected =
+        `## Usage\n\n` +
+        `| name | usage |\n` +
+        `| ---- | ----- |\n` +
+        `| string | \`prog -s <string>\` |\n` +
+        `| flag | \`prog [(-f\\|--flag)]\` |`;
+      expect(formatter.sections(sections, 'prog').message).toEqual(expected);
+    });
+  });
+});
+
+describe('ManFormatter', () => {
+  describe('format', () => {
+    it('should handle zero options', () => {
+      const formatter = new ManFormatter(new OptionValidator({}));
+      expect(formatter.format().message).toEqual('');
+    });
+
+    it('should handle a flag option with a URL in the description', () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+          desc: 'See https://abc/d.',
+        },
+      } as const satisfies Options;
+      const config: FormatterConfig = { items: [HelpItem.desc] };
+      const formatter = new ManFormatter(new OptionValidator(options), config);
+      expect(formatter.format().message).toEqual(
+        '.TP\n\\fB\\-f\\fR\nSee https://abc/d.', // cspell:disable-line
+      );
+    });
+
+    it('should be selectable by the name of the help format', () => {
+      expect(isHelpFormat('man')).toBeTruthy();
+      const formatter = createFormatter(new OptionValidator({}), undefined, 'man');
+      expect(formatter).toBeInstanceOf(ManFormatter);
+    });
+
+    it('should handle a string option with styles in the description', () => {
+      const options = {
+        string: {
+          type: 'string',
+          names: ['-s', '--string'],
+          desc:
+            `A ${style(tf.bold)}bold${style(tf.clear)} and ` +
+            `${style(tf.italic, fg.red)}italic${style(tf.notItalicNorFraktur)} string.\n\n` +
+            `.Second \\paragraph.`,
+          group: 'group',
+        },
+      } as const satisfies Options;
+      const config: FormatterConfig = { items: [HelpItem.desc] };
+      const formatter = new ManFormatter(new OptionValidator(options), config);
+      const expected =
+        `.TP\n` +
+        `\\fB\\-s\\fR, \\fB\\-\\-string\\fR \\fI<string>\\fR\n` +
+        `A \\fBbold\\fR and \\fIitalic\\fR string.\n` + // cspell:disable-line
+        `.sp\n` +
+        `\\&.Second \\eparagraph.`;
+      expect(formatter.format('group').message).toEqual(expected);
+      expect(formatter.format('group').message).toEqual(expected); // <<-- keep this
+    });
+
+    it('should render nested commands as subsections', () => {
+      const options = {
+        command: {
+          type: 'command',
+          names: ['cmd'],
+          options: {
+            flag: {
+              type: 'flag',
+              names: ['-f'],
+            },
+            command: {
+              type: 'command',
+              names: ['sub'],
+              options: {},
+            },
+          },
+        },
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+        },
+      } as const satisfies Options;
+      const formatter = new ManFormatter(new OptionValidator(options), { items: [] });
+      const expected =
+        `.TP\n\\fBcmd\\fR \\fI...\\fR\n` + // cspell:disable-line
+        `.TP\n\\fB\\-f\\fR\n` +
+        `.SS cmd\n` +
+        `.TP\n\\fB\\-f\\fR\n` +
+        `.TP\n\\fBsub\\fR \\fI...\\fR\n` + // cspell:disable-line
+        `.SS "cmd sub"`;
+      expect(formatter.format().message).toEqual(expected);
+    });
+  });
+
+  describe('sections', () => {
+    it('should handle help sections', () => {
+      const options = {
+        string: {
+          type: 'string',
+          names: ['-s'],
+          required: true,
+        },
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+          group: 'Group',
+        },
+      } as const satisfies Options;
+      const config: FormatterConfig = { items: [] };
+      const formatter = new ManFormatter(new OptionValidator(options), config);
+      const sections: HelpSections = [
+        { type: 'text', text: 'A program.' },
+        { type: 'usage', title: 'Usage:' },
+        { type: 'text', title: 'Notes:', text: 'Some notes.' },
+        { type: 'groups', title: 'Options:' },
+      ];
+      const expected =
+        `.TH MY\\-PROG 1\n` +
+        `.SH NAME\n` +
+        `my\\-prog \\- A program.\n` +
+        `.SH DESCRIPTION\n` +
+        `A program.\n` +
+        `.SH SYNOPSIS\n` +
+        `\\fBmy\\-prog\\fR \\fB\\-s\\fR \\fI<string>\\fR [\\fB\\-f\\fR]\n` +
+        `.SH NOTES\n` +
+        `Some notes.\n` +
+        `.SH OPTIONS\n` +
+        `.TP\n\\fB\\-s\\fR \\fI<string>\\fR\n` +
+        `.SS Group\n` +
+        `.TP\n\\fB\\-f\\fR`;
+      expect(formatter.sections(sections, 'my-prog').message).toEqual(expected);
+      expect(formatter.sections(sections, 'my-prog').message).toEqual(expected); // <<-- keep this
+    });
+
+    it('should take the program description from the first paragraph of a text section', () => {
+      const formatter = new ManFormatter(new OptionValidator({}));
+      const sections: HelpSections = [
+        { type: 'text', title: 'Introduction' },
+        {
+          type: 'text',
+          text: `A ${style(tf.bold)}program${style(tf.clear)}\nfor tests.\n\nMore text.`,
+        },
+      ];
+      const expected =
+        `.TH PROG 1\n` +
+        `.SH NAME\n` +
+        `prog \\- A program for tests.\n` +
+        `.SH INTRODUCTION\n` +
+        `.SH DESCRIPTION\n` +
+        `A \\fBprogram\\fR for tests.\n` + // cspell:disable-line
+        `.sp\n` +
+        `More text.`;
+      expect(formatter.sections(sections, 'prog').message).toEqual(expected);
+    });
+
+    it('should handle a usage section with synopses', () => {
+      const options = {
+        string: {
+          type: 'string',
+          names: ['-s'],
+        },
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+        },
+      } as const satisfies Options;
+      const formatter = new ManFormatter(new OptionValidator(options));
+      const sections: HelpSections = [
+        {
+          type: 'usage',
+          synopses: [
+            { name: 'string', filter: ['string'], required: ['string'] },
+            { name: 'flag', filter: ['flag'] },
+          ],
+        },
+      ];
+      const expected =
+        `.TH MY\\-PROG 1\n` +
+        `.SH NAME\n` +
+        `my\\-prog\n` +
+        `.SH SYNOPSIS\n` +
+        `\\fBmy\\-prog\\fR \\fB\\-s\\fR \\fI<string>\\fR\n` +
+        `.br\n` +
+        `\\fBmy\\-prog\\fR [\\fB\\-f\\fR]`;
+      expect(formatter.sections(sections, 'my-prog').message).toEqual(expected);
+    });
+
+    it('should handle a commands section with nested commands', () => {
+      const options = {
+        command: {
+          type: 'command',
+          names: ['cmd'],
+          desc: 'A command.',
+          options: {
+            flag: {
+              type: 'flag',
+              names: ['-f'],
+            },
+            command: {
+              type: 'command',
+              names: ['sub'],
+              desc: 'A subcommand.',
+              options: {},
+            },
+          },
+        },
+      } as const satisfies Options;
+      const formatter = new ManFormatter(new OptionValidator(options));
+      const sections: HelpSections = [{ type: 'commands', title: 'Commands:' }];
+      const expected =
+        `.TH PROG 1\n` +
+        `.SH NAME\n` +
+        `prog\n` +
+        `.SH COMMANDS\n` +
+        `.TP\n\\fBcmd\\fR [\\fB\\-f\\fR] [\\fBsub\\fR \\fI...\\fR]\n` + // cspell:disable-line
+        `A command.\n` +
+        `.RS\n` +
+        `.TP\n\\fBsub\\fR\n` + // cspell:disable-line
+        `A subcommand.\n` +
+        `.RE`;
+      expect(formatter.sections(sections, 'prog').message).toEqual(expected);
+    });
+  });
+});
+
+describe('HtmlFormatter', () => {
+  describe('format', () => {
+    it('should handle zero options', () => {
+      const formatter = new HtmlFormatter(new OptionValidator({}));
+      expect(formatter.format().message).toEqual('');
+    });
+
+    it('should be selectable by the name of the help format', () => {
+      expect(isHelpFormat('html')).toBeTruthy();
+      const formatter = createFormatter(new OptionValidator({}), undefined, 'html');
+      expect(formatter).toBeInstanceOf(HtmlFormatter);
+    });
+
+    it('should handle a flag option with a URL in the description', () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+          desc: 'See https://abc/d.',
+        },
+      } as const satisfies Options;
+      const config: FormatterConfig = { items: [HelpItem.desc] };
+      const formatter = new HtmlFormatter(new OptionValidator(options), config);
+      expect(formatter.format().message).toEqual(
+        `<table>\n` +
+          `<tr><td><span class="fg-13">-f</span></td><td></td><td>See https://abc/d.</td></tr>\n` +
+          `</table>`,
+      );
+    });
+
+    it('should handle a string option with styles in the description and a link', () => {
+      const options = {
+        string: {
+          type: 'string',
+          names: ['-s', '--string'],
+          desc:
+            `A ${style(tf.bold, fg.red)}bold${style(tf.notBoldOrFaint)} ` +
+            `${style(tf.italic, bg.brightBlue, fg8(208))}<string>${style(tf.clear)}.\n\n` +
+            `Paragraph with "quotes" & 'apostrophes'.`,
+          link: new URL('https://example.com/?a=1&b=2'),
+          group: 'group',
+        },
+      } as const satisfies Options;
+      const config: FormatterConfig = { items: [HelpItem.desc, HelpItem.link] };
+      const formatter = new HtmlFormatter(new OptionValidator(options), config);
+      const href = 'https://example.com/?a=1&amp;b=2';
+      const expected =
+        `<table>\n` +
+        `<tr><td><span class="fg-13">-s</span>, <span class="fg-13">--string</span></td>` +
+        `<td><span class="fg-8">&lt;string&gt;</span></td>` +
+        `<td>A <span class="bold fg-1">bold</span>` +
+        `<span class="fg-1"> </span>` +
+        `<span class="fg-208 italic bg-12">&lt;string&gt;</span>.<br><br>` +
+        `Paragraph with &quot;quotes&quot; &amp; &#39;apostrophes&#39;. ` +
+        `Refer to <span class="fg-8"><a href="${href}">${href}</a></span> for details.</td></tr>\n` +
+        `</table>`;
+      expect(formatter.format('group').message).toEqual(expected);
+      expect(formatter.format('group').message).toEqual(expected); // <<-- keep this
+    });
+  });
+
+  describe('sections', () => {
+    it('should handle help sections', () => {
+      const options = {
+        string: {
+          type: 'string',
+          names: ['-s'],
+          required: true,
+        },
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+          group: 'Group',
+        },
+      } as const satisfies Options;
+      const config: FormatterConfig = { items: [] };
+      const formatter = new HtmlFormatter(new OptionValidator(options), config);
+      const sections: HelpSections = [
+        { type: 'text', text: 'A <program>.' },
+        { type: 'usage', title: 'Usage:' },
+        { type: 'groups', title: 'Options:' },
+      ];
+      const expected =
+        `<p>A &lt;program&gt;.</p>\n` +
+        `<h2>Usage:</h2>\n` +
+        `<pre>prog <span class="fg-13">-s</span> <span class="fg-8">&lt;string&gt;</span> ` +
+        `[<span class="fg-13">-f</span>]</pre>\n` +
+        `<h2>Options:</h2>\n` +
+        `<table>\n` +
+        `<tr><td><span class="fg-13">-s</span></td><td><span class="fg-8">&lt;string&gt;</span></td><td></td></tr>\n` +
+        `</table>\n` +
+        `<h2>Group</h2>\n` +
+        `<table>\n` +
+        `<tr><td><span class="fg-13">-f</span></td><td></td><td></td></tr>\n` +
+        `</table>`;
+      expect(formatter.sections(sections, 'prog').message).toEqual(expected);
+      expect(formatter.sections(sections, 'prog').message).toEqual(expected); // <<-- keep this
+    });
+
+    it('should handle a usage section with synopses', () => {
+      const options = {
+        string: {
+          type: 'string',
+          names: ['-s'],
+        },
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+        },
+      } as const satisfies Options;
+      const formatter = new HtmlFormatter(new OptionValidator(options));
+      const sections: HelpSections = [
+        {
+          type: 'usage',
+          synopses: [
+            { name: 'string', filter: ['string'], required: ['string'] },
+            { name: 'flag', filter: ['flag'] },
+          ],
+        },
+      ];
+      const expected =
+        `<pre>prog <span class="fg-13">-s</span> <span class="fg-8">&lt;string&gt;</span>\n` +
+        `prog [<span class="fg-13">-f</span>]</pre>`;
+      expect(formatter.sections(sections, 'prog').message).toEqual(expected);
+    });
+
+    it('should handle a commands section with nested commands', () => {
+      const options = {
+        command: {
+          type: 'command',
+          names: ['cmd'],
+          desc: 'A <command>.',
+          options: {
+            flag: {
+              type: 'flag',
+              names: ['-f'],
+            },
+            command: {
+              type: 'command',
+              names: ['sub'],
+              options: {},
+            },
+          },
+        },
+      } as const satisfies Options;
+      const formatter = new HtmlFormatter(new OptionValidator(options));
+      const sections: HelpSections = [{ type: 'commands', title: 'Commands:' }];
+      const expected =
+        `<h2>Commands:</h2>\n` +
+        `<ul>\n` +
+        `<li><code><span class="fg-13">cmd</span> [<span class="fg-13">-f</span>] ` +
+        `[<span class="fg-13">sub</span> <span class="fg-8">...</span>]</code><br>A &lt;command&gt;.\n` +
+        `<ul>\n` +
+        `<li><code><span class="fg-13">sub</span></code>\n` +
+        `</li>\n` +
+        `</ul>\n` +
+        `</li>\n` +
+        `</ul>`;
+      expect(formatter.sections(sections, 'prog').message).toEqual(expected);
+    });
   });
 });
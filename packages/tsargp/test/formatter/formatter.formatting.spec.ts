@@ -1,11 +1,40 @@
 import { describe, expect, it } from 'vitest';
 import type { Options, FormatterConfig } from '../../lib';
 import { AnsiFormatter, OptionValidator, style, tf, fg8, ConnectiveWord } from '../../lib';
-import { defaultConfig } from '../../lib/validator';
+import { defaultConfig, resolveConfig } from '../../lib/validator';
 import '../utils.spec'; // initialize globals
 
 describe('AnsiFormatter', () => {
   describe('format', () => {
+    it('should use the styles of a theme', () => {
+      const options = {
+        string: {
+          type: 'string',
+          names: ['-s'],
+          desc: 'A string option',
+        },
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+          styles: { names: style(tf.italic) },
+        },
+      } as const satisfies Options;
+      const valCfg = resolveConfig({
+        theme: {
+          styles: { text: style(fg8(1)), value: style(fg8(2)) },
+          options: { names: style(fg8(3)), param: style(fg8(4)) },
+        },
+        styles: { value: style(fg8(5)) },
+      });
+      expect(valCfg.styles.text).toEqual(style(fg8(1)));
+      expect(valCfg.styles.value).toEqual(style(fg8(5)));
+      const message = new AnsiFormatter(new OptionValidator(options, valCfg)).format();
+      const wrapped = message.wrap(0, true);
+      expect(wrapped).toContain(style(fg8(3)) + '-s');
+      expect(wrapped).toContain(style(fg8(4)) + '<string>');
+      expect(wrapped).toContain(style(tf.italic) + '-f');
+    });
+
     it('should handle an option with no names or description', () => {
       const options = {
         flag: { type: 'flag' },
@@ -444,5 +444,65 @@ describe('AnsiFormatter', () => {
         `  -ns, --numbers  '1[,;]2'  A numbers option. Values are delimited by /[,;]/s.\n`,
       );
     });
+
+    it('should handle a record option with a fallback value', () => {
+      const options = {
+        record: {
+          type: 'record',
+          names: ['-D', '--define'],
+          desc: 'A record option.',
+          fallback: { a: 1, b: 'x' },
+        },
+      } as const satisfies Options;
+      const message = new AnsiFormatter(new OptionValidator(options)).format();
+      expect(message.wrap()).toEqual(
+        `  -D, --define  [<key>=<value>...]  A record option. Accepts multiple parameters. Falls back to ['a=1', 'b=x'] if specified without parameter.\n`,
+      );
+    });
+
+    it('should handle a record option with a pair separator and an example value', () => {
+      const options = {
+        record: {
+          type: 'record',
+          names: ['-D', '--define'],
+          desc: 'A record option.',
+          pairSeparator: ':',
+          example: { a: 1, b: 'x' },
+        },
+      } as const satisfies Options;
+      const message = new AnsiFormatter(new OptionValidator(options)).format();
+      expect(message.wrap()).toEqual(
+        `  -D, --define  'a:1' 'b:x'...  A record option. Accepts multiple parameters.\n`,
+      );
+    });
+
+    it('should handle a size option with an example value', () => {
+      const options = {
+        size: {
+          type: 'size',
+          names: ['-s', '--size'],
+          desc: 'A size option.',
+          example: 2e9,
+        },
+      } as const satisfies Options;
+      const message = new AnsiFormatter(new OptionValidator(options)).format();
+      expect(message.wrap()).toEqual(`  -s, --size  2GB  A size option.\n`);
+    });
+
+    it('should handle a delimited dates option with an example value', () => {
+      const options = {
+        dates: {
+          type: 'dates',
+          names: ['-d', '--dates'],
+          desc: 'A dates option.',
+          separator: ',',
+          example: [new Date('2024-01-01'), new Date('2024-01-02')],
+        },
+      } as const satisfies Options;
+      const message = new AnsiFormatter(new OptionValidator(options)).format();
+      expect(message.wrap()).toEqual(
+        `  -d, --dates  '2024-01-01,2024-01-02'  A dates option. Values are delimited by ','.\n`,
+      );
+    });
   });
 });
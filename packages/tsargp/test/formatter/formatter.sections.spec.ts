@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import type { Options, HelpSections } from '../../lib';
-import { AnsiFormatter, OptionValidator } from '../../lib';
+import { AnsiFormatter, OptionValidator, req, style, tf, fg8 } from '../../lib';
+import { resolveConfig } from '../../lib/validator';
 import '../utils.spec'; // initialize globals
 
 describe('AnsiFormatter', () => {
@@ -120,6 +121,54 @@ describe('AnsiFormatter', () => {
       expect(message.wrap()).toEqual('prog [-b <boolean>]');
     });
 
+    it('should render a usage section with synopses, a heading and a program name', () => {
+      const options = {
+        string: {
+          type: 'string',
+          names: ['-s'],
+        },
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+        },
+      } as const satisfies Options;
+      const sections: HelpSections = [
+        {
+          type: 'usage',
+          title: 'title',
+          indent: 2,
+          synopses: [
+            { name: 'flag', filter: ['flag'], comment: '# a flag' },
+            { name: 'string', filter: ['string'], required: ['string'] },
+          ],
+        },
+      ];
+      const message = new AnsiFormatter(new OptionValidator(options)).sections(sections, 'prog');
+      expect(message.wrap()).toEqual('title\n\n  prog [-f] # a flag\n  prog -s <string>');
+    });
+
+    it('should render a usage section with synopses that inherit the section attributes', () => {
+      const options = {
+        string: {
+          type: 'string',
+          names: ['-s'],
+        },
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+        },
+      } as const satisfies Options;
+      const sections: HelpSections = [
+        {
+          type: 'usage',
+          required: ['flag'],
+          synopses: [{ name: 'all' }, { name: 'string', filter: ['string'] }],
+        },
+      ];
+      const message = new AnsiFormatter(new OptionValidator(options)).sections(sections);
+      expect(message.wrap()).toEqual('[-s <string>] -f\n[-s <string>]');
+    });
+
     it('should render a usage section with a boolean option with an example value and a heading', () => {
       const options = {
         boolean: {
@@ -160,12 +209,172 @@ describe('AnsiFormatter', () => {
       expect(message.wrap()).toEqual('[-b=true]');
     });
 
+    it('should render a usage section with exclusive groups', () => {
+      const options = {
+        json: {
+          type: 'flag',
+          names: ['--json'],
+        },
+        string: {
+          type: 'string',
+          names: ['-s'],
+        },
+        yaml: {
+          type: 'flag',
+          names: ['--yaml', '-y'],
+        },
+        number: {
+          type: 'number',
+          names: ['-n'],
+        },
+        text: {
+          type: 'flag',
+          names: ['--text'],
+        },
+      } as const satisfies Options;
+      const sections: HelpSections = [{ type: 'usage' }];
+      const case0 = [{ keys: ['json', 'yaml', 'text'] }] as const;
+      const case1 = [{ kind: 'exactlyOne', keys: ['json', 'yaml', 'text'] }] as const;
+      const case2 = [{ kind: 'atLeastOne', keys: ['string', 'number'] }] as const;
+      const validator0 = new OptionValidator(options, undefined, case0);
+      const validator1 = new OptionValidator(options, undefined, case1);
+      const validator2 = new OptionValidator(options, undefined, case2);
+      expect(new AnsiFormatter(validator0).sections(sections).wrap()).toEqual(
+        '[--json | (--yaml|-y) | --text] [-s <string>] [-n <number>]',
+      );
+      expect(new AnsiFormatter(validator1).sections(sections).wrap()).toEqual(
+        '(--json | (--yaml|-y) | --text) [-s <string>] [-n <number>]',
+      );
+      expect(new AnsiFormatter(validator2).sections(sections).wrap()).toEqual(
+        '[--json] (-s <string> | -n <number>) [(--yaml|-y)] [--text]',
+      );
+    });
+
+    it('should render a usage section with an exclusive group, excluding filtered options', () => {
+      const options = {
+        json: {
+          type: 'flag',
+          names: ['--json'],
+        },
+        yaml: {
+          type: 'flag',
+          names: ['--yaml'],
+        },
+        text: {
+          type: 'flag',
+          names: ['--text'],
+        },
+      } as const satisfies Options;
+      const exclusive = [{ kind: 'exactlyOne', keys: ['json', 'yaml', 'text'] }] as const;
+      const validator = new OptionValidator(options, undefined, exclusive);
+      const sections: HelpSections = [{ type: 'usage', filter: ['yaml'], exclude: true }];
+      const message = new AnsiFormatter(validator).sections(sections);
+      expect(message.wrap()).toEqual('(--json | --text)');
+    });
+
+    it('should render an empty commands section', () => {
+      const sections: HelpSections = [{ type: 'commands', title: 'title' }];
+      const message = new AnsiFormatter(new OptionValidator({})).sections(sections);
+      expect(message.wrap()).toEqual('title');
+    });
+
+    it('should render a commands section with nested commands', () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+        },
+        hidden: {
+          type: 'command',
+          names: ['hidden'],
+          hide: true,
+        },
+        cmd1: {
+          type: 'command',
+          names: ['cmd1', 'c1'],
+          desc: 'A command',
+          options: {
+            string: {
+              type: 'string',
+              names: ['-s'],
+              required: true,
+            },
+            cmd2: {
+              type: 'command',
+              names: ['cmd2'],
+              desc: 'A nested command',
+              options: async () => ({}),
+            },
+          },
+        },
+      } as const satisfies Options;
+      const sections: HelpSections = [{ type: 'commands', title: 'Commands:', indent: 2 }];
+      const message = new AnsiFormatter(new OptionValidator(options)).sections(sections);
+      expect(message.wrap()).toEqual(
+        'Commands:\n\n' +
+          '  (cmd1|c1) -s <string> [cmd2 ...]\n' +
+          '    A command\n' +
+          '    cmd2\n' +
+          '      A nested command',
+      );
+    });
+
+    it('should render a commands section with a recursive command and a depth limit', () => {
+      const options = {
+        cmd: {
+          type: 'command',
+          names: ['cmd'],
+          options: (): Options => ({ flag: { type: 'flag', names: ['-f'] }, cmd: options.cmd }),
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options);
+      const message1 = new AnsiFormatter(validator).sections([{ type: 'commands' }]);
+      expect(message1.wrap()).toEqual('cmd [-f] [cmd ...]\n  cmd [-f] [cmd ...]');
+      const message2 = new AnsiFormatter(validator).sections([{ type: 'commands', depth: 1 }]);
+      expect(message2.wrap()).toEqual('cmd [-f] [cmd ...]');
+    });
+
+    it('should render a commands section with the resolved options of an async callback', () => {
+      const options = {
+        cmd: {
+          type: 'command',
+          names: ['cmd'],
+          options: async () => ({ flag: { type: 'flag', names: ['-f'] } }),
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options);
+      validator.commands.set(options.cmd, { flag: { type: 'flag', names: ['-f'] } });
+      const message = new AnsiFormatter(validator).sections([{ type: 'commands' }]);
+      expect(message.wrap()).toEqual('cmd [-f]');
+    });
+
     it('should render an empty groups section', () => {
       const sections: HelpSections = [{ type: 'groups' }];
       const message = new AnsiFormatter(new OptionValidator({})).sections(sections);
       expect(message.wrap()).toEqual('');
     });
 
+    it('should render section headings with the style of a theme', () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+          group: 'Group',
+        },
+      } as const satisfies Options;
+      const config = resolveConfig({ theme: { heading: style(fg8(1)) } });
+      const sections: HelpSections = [
+        { type: 'text', title: 'Title' },
+        { type: 'groups' },
+        { type: 'groups', style: style(tf.italic) },
+      ];
+      const message = new AnsiFormatter(new OptionValidator(options, config)).sections(sections);
+      const wrapped = message.wrap(0, true);
+      expect(wrapped).toContain(style(fg8(1)) + 'Title');
+      expect(wrapped).toContain(style(fg8(1)) + 'Group');
+      expect(wrapped).toContain(style(tf.italic) + 'Group');
+    });
+
     it('should render a groups section with a default group', () => {
       const options = {
         flag: {
@@ -393,5 +602,74 @@ describe('AnsiFormatter', () => {
       expect(formatter.sections(case11).wrap()).toEqual('-f3 [-f2 [-f1]]');
       expect(formatter.sections(case12).wrap()).toEqual('-f3 -f1 -f2');
     });
+
+    it('should group options according to inferred requirements in a usage section', () => {
+      const options = {
+        flag1: {
+          type: 'flag',
+          names: ['-f1'],
+          requires: 'flag2',
+        },
+        flag2: {
+          type: 'flag',
+          names: ['-f2'],
+          requires: req.all({ flag3: undefined }, req.not(req.not('flag3'))),
+        },
+        flag3: {
+          type: 'flag',
+          names: ['-f3'],
+        },
+      } as const satisfies Options;
+      const formatter = new AnsiFormatter(new OptionValidator(options));
+      const sections: HelpSections = [{ type: 'usage', inferRequires: true }];
+      expect(formatter.sections(sections).wrap()).toEqual('[[[-f1] -f2] -f3]');
+    });
+
+    it('should group mutually exclusive options according to inferred requirements in a usage section', () => {
+      const options = {
+        flag1: {
+          type: 'flag',
+          names: ['-f1'],
+          requires: req.not('flag2'),
+        },
+        flag2: {
+          type: 'flag',
+          names: ['-f2'],
+        },
+        flag3: {
+          type: 'flag',
+          names: ['-f3'],
+          requires: { flag2: null },
+        },
+      } as const satisfies Options;
+      const formatter = new AnsiFormatter(new OptionValidator(options));
+      const sections: HelpSections = [{ type: 'usage', inferRequires: true }];
+      expect(formatter.sections(sections).wrap()).toEqual('[-f1 | -f2] [-f3]');
+    });
+
+    it('should fall back to the adjacency list when requirements cannot be inferred in a usage section', () => {
+      const options = {
+        flag1: {
+          type: 'flag',
+          names: ['-f1'],
+          requires: () => true,
+        },
+        flag2: {
+          type: 'flag',
+          names: ['-f2'],
+          requires: req.one('flag1', 'flag3'),
+        },
+        flag3: {
+          type: 'flag',
+          names: ['-f3'],
+          requires: 'flag2',
+        },
+      } as const satisfies Options;
+      const formatter = new AnsiFormatter(new OptionValidator(options));
+      const sections: HelpSections = [
+        { type: 'usage', inferRequires: true, requires: { flag1: 'flag2', flag3: 'flag1' } },
+      ];
+      expect(formatter.sections(sections).wrap()).toEqual('[[-f1] -f2 [-f3]]');
+    });
   });
 });
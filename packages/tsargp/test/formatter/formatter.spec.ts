@@ -257,5 +257,21 @@ describe('AnsiFormatter', () => {
         `  -ns, --numbers  <numbers>  A numbers option. Values are delimited by ','. May be specified multiple times.\n`,
       );
     });
+
+    it('should handle a count option with negation names and a range constraint', () => {
+      const options = {
+        count: {
+          type: 'count',
+          names: ['-v', '--verbose'],
+          desc: 'A count option.',
+          negationNames: ['--quiet'],
+          range: [0, 3],
+        },
+      } as const satisfies Options;
+      const message = new AnsiFormatter(new OptionValidator(options)).format();
+      expect(message.wrap()).toEqual(
+        `  -v, --verbose    A count option. Can be negated with --quiet. May be specified multiple times. Values must be in the range [0, 3].\n`,
+      );
+    });
   });
 });
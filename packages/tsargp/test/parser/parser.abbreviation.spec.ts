@@ -0,0 +1,228 @@
+import { describe, expect, it } from 'vitest';
+import type { Options } from '../../lib';
+import { ArgumentParser } from '../../lib';
+import '../utils.spec'; // initialize globals
+
+describe('ArgumentParser', () => {
+  describe('parse', () => {
+    it('should not abbreviate option names by default', async () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['--verbose'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      await expect(parser.parse(['--verb'])).rejects.toThrow(`Unknown option --verb.`);
+    });
+
+    it('should abbreviate the names of all options when the flag is set', async () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['--verbose', '--verbatim'],
+        },
+        string: {
+          type: 'string',
+          names: ['--value'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const flags = { abbreviate: true };
+      await expect(parser.parse(['--verb'], flags)).resolves.toEqual({ flag: true });
+      await expect(parser.parse(['--va', '1'], flags)).resolves.toEqual({ string: '1' });
+      await expect(parser.parse(['--va=1'], flags)).resolves.toEqual({ string: '1' });
+    });
+
+    it('should abbreviate the names of options that enable it', async () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['--verbose'],
+          abbreviate: true,
+        },
+        string: {
+          type: 'string',
+          names: ['--value'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      await expect(parser.parse(['--v'])).resolves.toEqual({ flag: true });
+      await expect(parser.parse(['--va', '1'])).rejects.toThrow(`Unknown option --va.`);
+    });
+
+    it('should give precedence to exact option names', async () => {
+      const options = {
+        flag1: {
+          type: 'flag',
+          names: ['--ver'],
+        },
+        flag2: {
+          type: 'flag',
+          names: ['--verbose'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const flags = { abbreviate: true };
+      await expect(parser.parse(['--ver'], flags)).resolves.toEqual({ flag1: true });
+    });
+
+    it('should give precedence to abbreviations over cluster arguments', async () => {
+      const options = {
+        flag1: {
+          type: 'flag',
+          names: ['-flag'],
+          clusterLetters: 'f',
+        },
+        flag2: {
+          type: 'flag',
+          names: ['-l'],
+          clusterLetters: 'l',
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const flags = { abbreviate: true, clusterPrefix: '-' };
+      await expect(parser.parse(['-fl'], flags)).resolves.toEqual({ flag1: true });
+      await expect(parser.parse(['-lf'], flags)).resolves.toEqual({ flag1: true, flag2: true });
+    });
+
+    it('should not abbreviate a positional marker or a prefix with only dashes', async () => {
+      const options = {
+        strings: {
+          type: 'strings',
+          names: ['-s'],
+          positional: '--args',
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const flags = { abbreviate: true };
+      await expect(parser.parse(['--arg'], flags)).resolves.toEqual({ strings: ['--arg'] });
+      await expect(parser.parse(['-'], flags)).resolves.toEqual({ strings: ['-'] });
+    });
+
+    it('should throw an error on ambiguous option name', async () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['--verbose'],
+        },
+        string: {
+          type: 'string',
+          names: ['--version'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const flags = { abbreviate: true };
+      await expect(parser.parse(['--ver'], flags)).rejects.toThrow(
+        `Ambiguous option --ver. Possible names are: --verbose, --version.`,
+      );
+    });
+
+    it('should not consider different names of the same option as ambiguous', async () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['--verbose', '--verbatim'],
+          negationNames: ['--no-verbose'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const flags = { abbreviate: true };
+      await expect(parser.parse(['--verb'], flags)).resolves.toEqual({ flag: true });
+      await expect(parser.parse(['--no'], flags)).resolves.toEqual({ flag: false });
+    });
+
+    it('should propagate the flag to nested commands', async () => {
+      const options = {
+        command: {
+          type: 'command',
+          names: ['cmd'],
+          options: {
+            flag: {
+              type: 'flag',
+              names: ['--verbose'],
+            },
+          },
+          exec: ({ param }) => param,
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const flags = { abbreviate: true };
+      await expect(parser.parse(['cmd', '--verb'], flags)).resolves.toEqual({
+        command: { flag: true },
+      });
+    });
+
+    it('should not abbreviate words that an option may take as parameters', async () => {
+      const options = {
+        strings: {
+          type: 'strings',
+          names: ['-s'],
+          positional: true,
+        },
+        number: {
+          type: 'number',
+          names: ['--number'],
+        },
+        command: {
+          type: 'command',
+          names: ['add'],
+          exec: () => 'added',
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const flags = { abbreviate: true };
+      await expect(parser.parse(['-s', 'x', 'a'], flags)).resolves.toEqual({
+        strings: ['x', 'a'],
+        number: undefined,
+        command: undefined,
+      });
+      await expect(parser.parse(['x', 'a'], flags)).resolves.toEqual({
+        strings: ['x', 'a'],
+        number: undefined,
+        command: undefined,
+      });
+      await expect(parser.parse(['--num', '1', 'a'], flags)).resolves.toEqual({
+        strings: undefined,
+        number: 1,
+        command: 'added',
+      });
+    });
+
+    it('should complete all matching names when completing an abbreviation', async () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['--verbose'],
+        },
+        string: {
+          type: 'string',
+          names: ['--value'],
+          enums: ['one', 'two'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const flags = { abbreviate: true, compIndex: 7 };
+      await expect(parser.parse('cmd --v', flags)).rejects.toThrow(/^--verbose\n--value$/);
+      await expect(parser.parse('cmd --v --va=', { ...flags, compIndex: 13 })).rejects.toThrow(
+        /^one\ntwo$/,
+      );
+    });
+
+    it('should ignore ambiguous option names when completing', async () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['--verbose'],
+        },
+        string: {
+          type: 'string',
+          names: ['--version'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const flags = { abbreviate: true, compIndex: 13 };
+      await expect(parser.parse('cmd --ver --v', flags)).rejects.toThrow(/^--verbose\n--version$/);
+    });
+  });
+});
@@ -66,6 +66,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: '-f',
         param: [''],
+        sources: { function: { kind: 'cli', name: '-f', index: 0 } },
         comp: true,
       });
     });
@@ -136,6 +137,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: '-f',
         param: [''],
+        sources: { function: { kind: 'cli', name: '-f', index: 0 } },
         comp: true,
       });
       options.function.exec.mockClear();
@@ -161,6 +163,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: '-f',
         param: [''],
+        sources: { function: { kind: 'cli', name: '-f', index: 0 } },
         comp: true,
       });
     });
@@ -291,6 +294,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: '',
         param: [],
+        sources: {},
         comp: '',
       });
       options.function.complete.mockClear();
@@ -300,6 +304,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: '',
         param: ['a'],
+        sources: { function: { kind: 'cli', name: '', index: 0 } },
         comp: '',
       });
       options.function.complete.mockClear();
@@ -309,6 +314,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: '',
         param: [],
+        sources: { function: { kind: 'cli', name: '', index: 0 } },
         comp: '',
       });
     });
@@ -399,6 +405,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: '-b',
         param: [],
+        sources: { boolean: { kind: 'cli', name: '-b', index: 0 } },
         comp: '',
       });
       options.boolean.complete.mockClear();
@@ -408,6 +415,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: '-b',
         param: [],
+        sources: { boolean: { kind: 'cli', name: '-b', index: 0 } },
         comp: '',
       });
       options.boolean.complete.mockClear();
@@ -417,6 +425,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: '-b',
         param: [],
+        sources: { boolean: { kind: 'cli', name: '-b', index: 0 } },
         comp: '12',
       });
       options.boolean.complete.mockClear();
@@ -426,6 +435,7 @@ describe('ArgumentParser', () => {
         index: 1,
         name: '-b',
         param: [],
+        sources: { boolean: { kind: 'cli', name: '-b', index: 1 } },
         comp: '',
       });
     });
@@ -593,6 +603,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: '-ss',
         param: [],
+        sources: { strings: { kind: 'cli', name: '-ss', index: 0 } },
         comp: '',
       });
       options.strings.complete.mockClear();
@@ -602,6 +613,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: '-ss',
         param: ['1'],
+        sources: { strings: { kind: 'cli', name: '-ss', index: 0 } },
         comp: '',
       });
     });
@@ -657,6 +669,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: '-ns',
         param: [],
+        sources: { numbers: { kind: 'cli', name: '-ns', index: 0 } },
         comp: '',
       });
       options.numbers.complete.mockClear();
@@ -666,6 +679,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: '-ns',
         param: ['1'],
+        sources: { numbers: { kind: 'cli', name: '-ns', index: 0 } },
         comp: '',
       });
     });
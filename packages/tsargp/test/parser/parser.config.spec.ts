@@ -0,0 +1,369 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { promises } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Options, OptionValues } from '../../lib';
+import { ArgumentParser } from '../../lib';
+import '../utils.spec'; // initialize globals
+
+describe('ArgumentParser', () => {
+  describe('parse', () => {
+    const options = {
+      flag: {
+        type: 'flag',
+        names: ['-f'],
+      },
+      boolean: {
+        type: 'boolean',
+        names: ['-b'],
+        envVar: 'CONFIG_BOOLEAN',
+      },
+      string: {
+        type: 'string',
+        names: ['-s'],
+        default: 'abc',
+        regex: /^\w*$/,
+      },
+      number: {
+        type: 'number',
+        names: ['-n'],
+        range: [0, 10],
+      },
+      strings: {
+        type: 'strings',
+        names: ['-ss'],
+        separator: ',',
+      },
+      numbers: {
+        type: 'numbers',
+        names: ['-ns'],
+        unique: true,
+      },
+    } as const satisfies Options;
+    const parser = new ArgumentParser(options);
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await promises.mkdtemp(join(tmpdir(), 'tsargp-'));
+      const json = {
+        flag: false,
+        boolean: true,
+        string: 'def',
+        number: 1,
+        strings: ['a,b', 'c'],
+        numbers: [1, 1, '2'],
+        unknown: {},
+      };
+      await promises.writeFile(join(dir, 'config.json'), JSON.stringify(json));
+      await promises.writeFile(join(dir, 'null.json'), `{"string": null}`);
+      await promises.writeFile(join(dir, 'array.json'), `[]`);
+      await promises.writeFile(join(dir, 'invalid.json'), `{`);
+      await promises.writeFile(join(dir, 'range.json'), `{"number": 11}`);
+      await promises.writeFile(join(dir, 'object.json'), `{"numbers": [{}]}`);
+      await promises.writeFile(
+        join(dir, 'config.ini'),
+        [
+          '# comment',
+          '; comment',
+          '',
+          'flag = true',
+          `boolean = "0"`,
+          'string=def',
+          'number = 2.5',
+          `strings = ["a, b", 'c', d,]`,
+          'numbers = []',
+        ].join('\n'),
+      );
+      await promises.writeFile(join(dir, 'invalid.ini'), `string = abc\n[section`);
+      await promises.writeFile(join(dir, 'quote.ini'), `string = 'abc`);
+      await promises.writeFile(join(dir, 'regex.ini'), `string = 'a b'`);
+    });
+
+    afterAll(async () => {
+      await promises.rm(dir, { recursive: true });
+    });
+
+    it('should ignore a configuration file that does not exist', async () => {
+      const configFile = join(dir, 'missing.json');
+      await expect(parser.parse([], { configFile })).resolves.toEqual({
+        flag: undefined,
+        boolean: undefined,
+        string: 'abc',
+        number: undefined,
+        strings: undefined,
+        numbers: undefined,
+      });
+    });
+
+    it('should throw an error on configuration file with invalid JSON', async () => {
+      for (const name of ['invalid.json', 'array.json']) {
+        const configFile = join(dir, name);
+        await expect(parser.parse([], { configFile })).rejects.toThrow(
+          `Invalid configuration file '${configFile}'.`,
+        );
+      }
+    });
+
+    it('should throw an error on configuration file with invalid INI line', async () => {
+      let configFile = join(dir, 'invalid.ini');
+      await expect(parser.parse([], { configFile })).rejects.toThrow(
+        `Invalid configuration file '${configFile}' at line 2.`,
+      );
+      configFile = join(dir, 'quote.ini');
+      await expect(parser.parse([], { configFile })).rejects.toThrow(
+        `Invalid configuration file '${configFile}' at line 1.`,
+      );
+    });
+
+    it('should throw an error on configuration value for a help option', async () => {
+      const options = {
+        help: {
+          type: 'help',
+          names: ['-h'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const configFile = join(dir, 'help.json');
+      await promises.writeFile(configFile, `{"help": true}`);
+      await expect(parser.parse([], { configFile })).rejects.toThrow(
+        `Invalid value for ${configFile}:help.`,
+      );
+    });
+
+    it('should throw an error on configuration value for a version option', async () => {
+      const options = {
+        version: {
+          type: 'version',
+          names: ['-v'],
+          version: '0.1.0',
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const configFile = join(dir, 'version.json');
+      await promises.writeFile(configFile, `{"version": "1"}`);
+      await expect(parser.parse([], { configFile })).rejects.toThrow(
+        `Invalid value for ${configFile}:version.`,
+      );
+    });
+
+    it('should throw an error on configuration value for a completion option', async () => {
+      const options = {
+        completion: {
+          type: 'completion',
+          names: ['--completion'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const configFile = join(dir, 'completion.json');
+      await promises.writeFile(configFile, `{"completion": "bash"}`);
+      await expect(parser.parse([], { configFile })).rejects.toThrow(
+        `Invalid value for ${configFile}:completion.`,
+      );
+    });
+
+    it('should throw an error on configuration value for a command option', async () => {
+      const options = {
+        command: {
+          type: 'command',
+          names: ['cmd'],
+          options: {},
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const configFile = join(dir, 'command.ini');
+      await promises.writeFile(configFile, `[command]\nflag = true`);
+      await expect(parser.parse([], { configFile })).rejects.toThrow(
+        `Invalid value for ${configFile}:command.`,
+      );
+    });
+
+    it('should throw an error on configuration value not satisfying constraints', async () => {
+      let configFile = join(dir, 'range.json');
+      await expect(parser.parse([], { configFile })).rejects.toThrow(
+        `Invalid parameter to ${configFile}:number: 11. Value must be in the range [0, 10].`,
+      );
+      configFile = join(dir, 'regex.ini');
+      await expect(parser.parse([], { configFile })).rejects.toThrow(
+        `Invalid parameter to ${configFile}:string: 'a b'. Value must match the regex /^\\w*$/.`,
+      );
+    });
+
+    it('should throw an error on configuration value of invalid type', async () => {
+      const configFile = join(dir, 'object.json');
+      await expect(parser.parse([], { configFile })).rejects.toThrow(
+        `Invalid value for ${configFile}:numbers.`,
+      );
+    });
+
+    it('should read option values from a JSON configuration file', async () => {
+      const configFile = join(dir, 'config.json');
+      await expect(parser.parse([], { configFile })).resolves.toEqual({
+        flag: false,
+        boolean: true,
+        string: 'def',
+        number: 1,
+        strings: ['a', 'b', 'c'],
+        numbers: [1, 2],
+      });
+    });
+
+    it('should read option values from an INI configuration file', async () => {
+      const configFile = join(dir, 'config.ini');
+      await expect(parser.parse([], { configFile })).resolves.toEqual({
+        flag: true,
+        boolean: false,
+        string: 'def',
+        number: 2.5,
+        strings: ['a', ' b', 'c', 'd'],
+        numbers: undefined, // fallback value
+      });
+    });
+
+    it('should read the value of a record option from a configuration file', async () => {
+      const options = {
+        record: {
+          type: 'record',
+          names: ['-D'],
+          duplicates: 'append',
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const configFile = join(dir, 'record.json');
+      await promises.writeFile(configFile, `{"record": {"a": 1, "b": ["x", "2"]}}`);
+      await expect(parser.parse([], { configFile })).resolves.toEqual({
+        record: { a: [1], b: ['x', 2] },
+      });
+    });
+
+    it('should read sections from an INI configuration file', async () => {
+      const options = {
+        string: {
+          type: 'string',
+          names: ['-s'],
+        },
+        record: {
+          type: 'record',
+          names: ['-D'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const configFile = join(dir, 'section.ini');
+      await promises.writeFile(
+        configFile,
+        ['string = abc', '[record]', 'a = 1', '[ unknown ]', 'b = 2', '[record]', 'c = x'].join(
+          '\n',
+        ),
+      );
+      await expect(parser.parse([], { configFile })).resolves.toEqual({
+        string: 'abc',
+        record: { a: 1, c: 'x' },
+      });
+    });
+
+    it('should throw an error on INI section with the same name as a key', async () => {
+      const configFile = join(dir, 'section-key.ini');
+      await promises.writeFile(configFile, `string = abc\n[string]`);
+      await expect(parser.parse([], { configFile })).rejects.toThrow(
+        `Invalid configuration file '${configFile}' at line 2.`,
+      );
+    });
+
+    it('should read a prototype key from an INI configuration file as an own key', async () => {
+      const options = {
+        ['__proto__']: {
+          type: 'record',
+          names: ['-D'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const configFile = join(dir, 'proto.ini');
+      await promises.writeFile(configFile, `[__proto__]\npolluted = 1`);
+      const values = Object.create(null) as OptionValues<typeof options>;
+      await parser.parseInto(values, [], { configFile });
+      expect(values['__proto__']).toEqual({ polluted: 1 });
+      expect({}).not.toHaveProperty('polluted');
+    });
+
+    it('should read the values of options with units from a configuration file', async () => {
+      const options = {
+        durations: {
+          type: 'durations',
+          names: ['-t'],
+        },
+        date: {
+          type: 'date',
+          names: ['-d'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const configFile = join(dir, 'units.json');
+      await promises.writeFile(configFile, `{"durations": ["5m", 100], "date": "2024-01-01"}`);
+      await expect(parser.parse([], { configFile })).resolves.toEqual({
+        durations: [300000, 100],
+        date: new Date('2024-01-01'),
+      });
+    });
+
+    it('should report the configuration file as the source of option values', async () => {
+      const configFile = join(dir, 'config.json');
+      const values = {} as OptionValues<typeof options>;
+      await expect(
+        parser.parseInto(values, ['-n', '2'], { configFile, trackSources: true }),
+      ).resolves.toEqual({
+        sources: {
+          flag: { kind: 'config', name: `${configFile}:flag` },
+          boolean: { kind: 'config', name: `${configFile}:boolean` },
+          string: { kind: 'config', name: `${configFile}:string` },
+          number: { kind: 'cli', name: '-n', index: 0 },
+          strings: { kind: 'config', name: `${configFile}:strings` },
+          numbers: { kind: 'config', name: `${configFile}:numbers` },
+        },
+      });
+    });
+
+    it('should use the default value of an option whose configuration value is null', async () => {
+      const configFile = join(dir, 'null.json');
+      await expect(parser.parse([], { configFile })).resolves.toHaveProperty('string', 'abc');
+    });
+
+    it('should give precedence to the command-line and environment variables', async () => {
+      const configFile = join(dir, 'config.json');
+      process.env['CONFIG_BOOLEAN'] = '0';
+      await expect(parser.parse(['-s', 'ghi'], { configFile })).resolves.toMatchObject({
+        boolean: false,
+        string: 'ghi',
+        number: 1,
+      });
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete process.env['CONFIG_BOOLEAN'];
+    });
+
+    it('should read the configuration file specified by an option', async () => {
+      const options = {
+        config: {
+          type: 'string',
+          names: ['-c'],
+          configFile: true,
+          default: join(dir, 'missing.json'),
+        },
+        number: {
+          type: 'number',
+          names: ['-n'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const configFile = join(dir, 'config.json');
+      await expect(parser.parse([])).resolves.toEqual({
+        config: join(dir, 'missing.json'),
+        number: undefined,
+      });
+      await expect(parser.parse(['-c', configFile])).resolves.toEqual({
+        config: configFile,
+        number: 1,
+      });
+      await expect(parser.parse(['-c', join(dir, 'missing.json')])).rejects.toThrow(
+        `Could not find configuration file '${join(dir, 'missing.json')}'.`,
+      );
+    });
+  });
+});
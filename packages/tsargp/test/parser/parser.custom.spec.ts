@@ -21,6 +21,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: 'bool',
         param: '0123',
+        sources: { boolean: { kind: 'cli', name: 'bool', index: 0 } },
         comp: false,
       });
     });
@@ -43,6 +44,7 @@ describe('ArgumentParser', () => {
         index: NaN,
         name: 'BOOLEAN',
         param: '1',
+        sources: { boolean: { kind: 'env', name: 'BOOLEAN' } },
         comp: false,
       });
     });
@@ -79,6 +81,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: '-s',
         param: 'abcde',
+        sources: { string: { kind: 'cli', name: '-s', index: 0 } },
         comp: false,
       });
     });
@@ -113,6 +116,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: '-n',
         param: '1.2',
+        sources: { number: { kind: 'cli', name: '-n', index: 0 } },
         comp: false,
       });
     });
@@ -147,6 +151,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: '-ss',
         param: ['a', 'b'],
+        sources: { strings: { kind: 'cli', name: '-ss', index: 0 } },
         comp: false,
       });
       expect(options.strings.parse).toHaveBeenCalledTimes(1);
@@ -183,6 +188,7 @@ describe('ArgumentParser', () => {
         index: 0,
         name: '-ns',
         param: ['1.2', '1.7'],
+        sources: { numbers: { kind: 'cli', name: '-ns', index: 0 } },
         comp: false,
       });
       expect(options.numbers.parse).toHaveBeenCalledTimes(1);
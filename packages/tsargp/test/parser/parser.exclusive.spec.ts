@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { type Options, ArgumentParser } from '../../lib';
+import '../utils.spec'; // initialize globals
+
+describe('ArgumentParser', () => {
+  describe('parse', () => {
+    const options = {
+      json: {
+        type: 'flag',
+        names: ['--json'],
+      },
+      yaml: {
+        type: 'flag',
+        names: ['--yaml', '-y'],
+        preferredName: '-y',
+      },
+      text: {
+        type: 'flag',
+        names: ['--text'],
+        envVar: 'EXCLUSIVE_TEXT',
+      },
+      string: {
+        type: 'string',
+        names: ['-s'],
+        default: 'abc',
+      },
+    } as const satisfies Options;
+
+    it('should throw an error on mutually exclusive options', async () => {
+      for (const kind of ['atMostOne', 'exactlyOne'] as const) {
+        const parser = new ArgumentParser(options, {}, [{ kind, keys: ['json', 'yaml', 'text'] }]);
+        await expect(parser.parse(['--json'])).resolves.toMatchObject({ json: true });
+        await expect(parser.parse(['--json', '--yaml', '--text'])).rejects.toThrow(
+          `Options --json, -y, --text are mutually exclusive.`,
+        );
+      }
+    });
+
+    it('should consider an option specified through an environment variable', async () => {
+      const parser = new ArgumentParser(options, {}, [{ keys: ['json', 'text'] }]);
+      process.env['EXCLUSIVE_TEXT'] = '1';
+      await expect(parser.parse(['--json'])).rejects.toThrow(
+        `Options --json, --text are mutually exclusive.`,
+      );
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete process.env['EXCLUSIVE_TEXT'];
+    });
+
+    it('should not consider an option with a default value', async () => {
+      const parser = new ArgumentParser(options, {}, [{ keys: ['json', 'string'] }]);
+      await expect(parser.parse(['--json'])).resolves.toMatchObject({ json: true, string: 'abc' });
+    });
+
+    it('should throw an error on missing option from a group that requires at least one', async () => {
+      const parser = new ArgumentParser(options, {}, [
+        { kind: 'atLeastOne', keys: ['json', 'yaml'] },
+      ]);
+      await expect(parser.parse([])).rejects.toThrow(`At least one of --json, -y is required.`);
+      await expect(parser.parse(['--json', '-y'])).resolves.toMatchObject({
+        json: true,
+        yaml: true,
+      });
+    });
+
+    it('should throw an error on missing option from a group that requires exactly one', async () => {
+      const parser = new ArgumentParser(options, {}, [
+        { kind: 'exactlyOne', keys: ['json', 'yaml'] },
+      ]);
+      await expect(parser.parse([])).rejects.toThrow(`Exactly one of --json, -y is required.`);
+      await expect(parser.parse(['--yaml'])).resolves.toMatchObject({ yaml: true });
+    });
+
+    it('should check the exclusive groups of a nested command', async () => {
+      const options = {
+        command: {
+          type: 'command',
+          names: ['cmd'],
+          options: {
+            flag1: {
+              type: 'flag',
+              names: ['-f1'],
+            },
+            flag2: {
+              type: 'flag',
+              names: ['-f2'],
+            },
+          },
+          exclusive: [{ keys: ['flag1', 'flag2'] }],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      await expect(parser.parse(['cmd', '-f1', '-f2'])).rejects.toThrow(
+        `Options -f1, -f2 are mutually exclusive.`,
+      );
+    });
+  });
+});
@@ -0,0 +1,60 @@
+// cspell:disable
+import { describe, expect, it } from 'vitest';
+import type { Options, ValidatorConfig } from '../../lib';
+import { ArgumentParser, ConnectiveWord, ErrorItem, HelpItem } from '../../lib';
+import '../utils.spec'; // initialize globals
+
+describe('ArgumentParser', () => {
+  describe('parse', () => {
+    const options = {
+      number: {
+        type: 'number',
+        names: ['-n'],
+        required: true,
+        enums: [1, 2],
+      },
+      help: {
+        type: 'help',
+        names: ['-h'],
+      },
+    } as const satisfies Options;
+    const config: ValidatorConfig = {
+      locales: {
+        pt: {
+          phrases: { [ErrorItem.missingRequiredOption]: 'A opção %o é obrigatória.' },
+          helpPhrases: { [HelpItem.required]: 'Sempre obrigatória.' },
+          connectives: { [ConnectiveWord.numberSep]: ';' },
+          titles: { usage: 'Uso:', groups: 'Opções:' },
+        },
+      },
+    };
+
+    it('should use the phrases of a locale specified in the configuration', async () => {
+      const parser = new ArgumentParser(options, { ...config, locale: 'pt-BR' });
+      await expect(parser.parse([])).rejects.toThrow('A opção -n é obrigatória.');
+      await expect(parser.parse(['-h'], { progName: 'prog' })).rejects.toThrow(
+        `Uso:\n\n  prog -n <number> [-h]\n\nOpções:\n\n` +
+          `  -n  <number>  Values must be one of {1; 2}. Sempre obrigatória.\n  -h`,
+      );
+    });
+
+    it('should use the phrases of a locale specified in the environment', async () => {
+      process.env['LC_ALL'] = 'pt_BR.UTF-8';
+      const parser = new ArgumentParser(options, config);
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete process.env['LC_ALL'];
+      await expect(parser.parse([])).rejects.toThrow('A opção -n é obrigatória.');
+    });
+
+    it('should fall back to the default phrases when a locale is not found', async () => {
+      const parser = new ArgumentParser(options, { ...config, locale: 'fr' });
+      await expect(parser.parse([])).rejects.toThrow('Option -n is required.');
+    });
+
+    it('should give precedence to phrases in the configuration over those of the locale', async () => {
+      const phrases = { [ErrorItem.missingRequiredOption]: 'Falta a opção %o.' };
+      const parser = new ArgumentParser(options, { ...config, locale: 'pt', phrases });
+      await expect(parser.parse([])).rejects.toThrow('Falta a opção -n.');
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { Options, OptionValues } from '../../lib';
+import { ArgumentParser } from '../../lib';
+import '../utils.spec'; // initialize globals
+
+describe('ArgumentParser', () => {
+  describe('parseInto', () => {
+    const options = {
+      flag: {
+        type: 'flag',
+        names: ['-f'],
+      },
+      string: {
+        type: 'string',
+        names: ['-s'],
+      },
+      command: {
+        type: 'command',
+        names: ['cmd'],
+        options: {
+          flag: {
+            type: 'flag',
+            names: ['-f'],
+          },
+        },
+        exec: ({ param }) => param,
+      },
+    } as const satisfies Options;
+    const parser = new ArgumentParser(options);
+    const flags = { passThrough: true };
+
+    it('should throw an error on unknown option name by default', async () => {
+      await expect(parser.parseInto({} as OptionValues<typeof options>, ['-x'])).rejects.toThrow(
+        `Unknown option -x.`,
+      );
+    });
+
+    it('should return an empty list when there are no unknown arguments', async () => {
+      const values = {} as OptionValues<typeof options>;
+      await expect(parser.parseInto(values, ['-f'], flags)).resolves.toEqual({ unknown: [] });
+      expect(values).toEqual({ flag: true, string: undefined, command: undefined });
+    });
+
+    it('should collect unknown arguments with their positions', async () => {
+      const values = {} as OptionValues<typeof options>;
+      await expect(
+        parser.parseInto(values, ['-x', '-f', '-s', '1', 'a', '-y'], flags),
+      ).resolves.toEqual({
+        unknown: [
+          { index: 0, arg: '-x' },
+          { index: 4, arg: 'a' },
+          { index: 5, arg: '-y' },
+        ],
+      });
+      expect(values).toEqual({ flag: true, string: '1', command: undefined });
+    });
+
+    it('should collect unknown arguments with inline parameters', async () => {
+      await expect(
+        parser.parseInto({} as OptionValues<typeof options>, ['-x=1', '-s=2'], flags),
+      ).resolves.toEqual({
+        unknown: [{ index: 0, arg: '-x=1' }],
+      });
+    });
+
+    it('should still validate the known options', async () => {
+      await expect(
+        parser.parseInto({} as OptionValues<typeof options>, ['-x', '-s'], flags),
+      ).rejects.toThrow(`Missing parameter to -s.`);
+    });
+
+    it('should collect unknown arguments of nested commands', async () => {
+      const values = {} as OptionValues<typeof options>;
+      await expect(parser.parseInto(values, ['-x', 'cmd', '-y', '-f'], flags)).resolves.toEqual({
+        unknown: [
+          { index: 0, arg: '-x' },
+          { index: 2, arg: '-y' },
+        ],
+      });
+      expect(values).toEqual({ flag: undefined, string: undefined, command: { flag: true } });
+    });
+
+    it('should not collect arguments when there is a positional option', async () => {
+      const options = {
+        strings: {
+          type: 'strings',
+          positional: true,
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const values = {} as OptionValues<typeof options>;
+      await expect(parser.parseInto(values, ['-x'], flags)).resolves.toEqual({ unknown: [] });
+      expect(values).toEqual({ strings: ['-x'] });
+    });
+  });
+});
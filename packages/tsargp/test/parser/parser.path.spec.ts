@@ -0,0 +1,263 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { promises } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import type { Options } from '../../lib';
+import { ArgumentParser } from '../../lib';
+import '../utils.spec'; // initialize globals
+
+describe('ArgumentParser', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await promises.mkdtemp(join(tmpdir(), 'tsargp-'));
+    await promises.mkdir(join(dir, 'sub'));
+    await promises.writeFile(join(dir, 'file.json'), `{}`);
+    await promises.writeFile(join(dir, 'file.txt'), ``);
+    await promises.writeFile(join(dir, '.hidden'), ``);
+  });
+
+  afterAll(async () => {
+    await promises.rm(dir, { recursive: true });
+  });
+
+  describe('parse', () => {
+    it('should accept any path by default', async () => {
+      const options = {
+        path: {
+          type: 'path',
+          names: ['-p'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      await expect(parser.parse(['-p', 'missing'])).resolves.toEqual({ path: 'missing' });
+    });
+
+    it('should resolve a path relative to the current working directory', async () => {
+      const options = {
+        path: {
+          type: 'path',
+          names: ['-p'],
+          absolute: true,
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      await expect(parser.parse(['-p', 'missing'])).resolves.toEqual({
+        path: resolve('missing'),
+      });
+    });
+
+    it('should resolve a path relative to a base directory', async () => {
+      const options = {
+        path: {
+          type: 'path',
+          names: ['-p'],
+          absolute: dir,
+          kind: 'file',
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      await expect(parser.parse(['-p', 'file.json'])).resolves.toEqual({
+        path: join(dir, 'file.json'),
+      });
+    });
+
+    it('should throw an error on a nonexistent path', async () => {
+      const options = {
+        path: {
+          type: 'path',
+          names: ['-p'],
+          exists: true,
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const path = join(dir, 'missing');
+      await expect(parser.parse(['-p', path])).rejects.toThrow(
+        `Invalid parameter to -p: '${path}'. Path does not exist.`,
+      );
+      const nested = join(dir, 'file.txt', 'missing');
+      await expect(parser.parse(['-p', nested])).rejects.toThrow(
+        `Invalid parameter to -p: '${nested}'. Path does not exist.`,
+      );
+      await expect(parser.parse(['-p', dir])).resolves.toEqual({ path: dir });
+    });
+
+    it('should throw an error on a path of the wrong kind', async () => {
+      const options = {
+        file: {
+          type: 'path',
+          names: ['-f'],
+          kind: 'file',
+        },
+        directory: {
+          type: 'path',
+          names: ['-d'],
+          kind: 'directory',
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const file = join(dir, 'file.txt');
+      await expect(parser.parse(['-f', dir])).rejects.toThrow(
+        `Invalid parameter to -f: '${dir}'. Path must be a file.`,
+      );
+      await expect(parser.parse(['-d', file])).rejects.toThrow(
+        `Invalid parameter to -d: '${file}'. Path must be a directory.`,
+      );
+      await expect(parser.parse(['-f', file, '-d', dir])).resolves.toEqual({
+        file,
+        directory: dir,
+      });
+    });
+
+    it('should accept a readable and writable path', async () => {
+      const options = {
+        path: {
+          type: 'path',
+          names: ['-p'],
+          readable: true,
+          writable: true,
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const path = join(dir, 'file.txt');
+      await expect(parser.parse(['-p', path])).resolves.toEqual({ path });
+    });
+
+    it('should accept a writable path that does not exist yet', async () => {
+      const options = {
+        path: {
+          type: 'path',
+          names: ['-p'],
+          writable: true,
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const path = join(dir, 'new.txt');
+      await expect(parser.parse(['-p', path])).resolves.toEqual({ path });
+      expect(parser.parseSync(['-p', path])).toEqual({ path });
+      const nested = join(dir, 'missing', 'new.txt');
+      await expect(parser.parse(['-p', nested])).rejects.toThrow(
+        `Invalid parameter to -p: '${nested}'. Path must be writable.`,
+      );
+    });
+
+    it('should throw an error on a nonexistent path that must be readable and writable', async () => {
+      const options = {
+        path: {
+          type: 'path',
+          names: ['-p'],
+          readable: true,
+          writable: true,
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const path = join(dir, 'new.txt');
+      await expect(parser.parse(['-p', path])).rejects.toThrow(
+        `Invalid parameter to -p: '${path}'. Path does not exist.`,
+      );
+    });
+
+    it('should throw an error on a path with a disallowed extension', async () => {
+      const options = {
+        path: {
+          type: 'path',
+          names: ['-p'],
+          extensions: ['.json', '.tar.gz'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      await expect(parser.parse(['-p', 'file.gz'])).rejects.toThrow(
+        `Invalid parameter to -p: 'file.gz'. Allowed extensions are {'.json', '.tar.gz'}.`,
+      );
+      await expect(parser.parse(['-p', 'file.tar.gz'])).resolves.toEqual({ path: 'file.tar.gz' });
+    });
+
+    it('should check each parameter of a paths option', async () => {
+      const options = {
+        paths: {
+          type: 'paths',
+          names: ['-p'],
+          absolute: dir,
+          exists: true,
+          separator: ',',
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      await expect(parser.parse(['-p', 'file.json,sub'])).resolves.toEqual({
+        paths: [join(dir, 'file.json'), join(dir, 'sub')],
+      });
+      await expect(parser.parse(['-p', 'file.json,missing'])).rejects.toThrow(
+        `Invalid parameter to -p: '${join(dir, 'missing')}'. Path does not exist.`,
+      );
+    });
+
+    it('should complete a path parameter with directory entries', async () => {
+      const options = {
+        path: {
+          type: 'path',
+          names: ['-p'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const line = `cmd -p ${dir}/`;
+      await expect(parser.parse(line, { compIndex: line.length })).rejects.toThrow(
+        new RegExp(`^${dir}/file.json\n${dir}/file.txt\n${dir}/sub/$`),
+      );
+      const hidden = `cmd -p ${dir}/.`;
+      await expect(parser.parse(hidden, { compIndex: hidden.length })).rejects.toThrow(
+        new RegExp(`^${dir}/.hidden$`),
+      );
+    });
+
+    it('should complete a path parameter according to the path constraints', async () => {
+      const options = {
+        file: {
+          type: 'path',
+          names: ['-f'],
+          absolute: dir,
+          extensions: ['.json'],
+        },
+        directory: {
+          type: 'paths',
+          names: ['-d'],
+          absolute: dir,
+          kind: 'directory',
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      await expect(parser.parse('cmd -f f', { compIndex: 8 })).rejects.toThrow(/^file.json$/);
+      await expect(parser.parse('cmd -d ', { compIndex: 7 })).rejects.toThrow(/^sub\/$/);
+      await expect(parser.parse('cmd -d missing/', { compIndex: 15 })).rejects.toThrow(/^$/);
+    });
+  });
+
+  describe('parseSync', () => {
+    it('should check a path parameter', () => {
+      const options = {
+        path: {
+          type: 'path',
+          names: ['-p'],
+          absolute: dir,
+          kind: 'directory',
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      expect(parser.parseSync(['-p', 'sub'])).toEqual({ path: join(dir, 'sub') });
+      expect(() => parser.parseSync(['-p', 'file.txt'])).toThrow(
+        `Invalid parameter to -p: '${join(dir, 'file.txt')}'. Path must be a directory.`,
+      );
+    });
+
+    it('should complete a path parameter', () => {
+      const options = {
+        path: {
+          type: 'path',
+          names: ['-p'],
+          absolute: dir,
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      expect(() => parser.parseSync('cmd -p s', { compIndex: 8 })).toThrow(/^sub\/$/);
+    });
+  });
+});
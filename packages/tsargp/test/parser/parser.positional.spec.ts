@@ -516,5 +516,75 @@ describe('ArgumentParser', () => {
       const parser = new ArgumentParser(options);
       await expect(parser.parse(['--'])).resolves.toEqual({ numbers: [1] });
     });
+
+    it('should stop processing option names at the first positional argument', async () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+        },
+        strings: {
+          type: 'strings',
+          names: ['-s'],
+          positional: true,
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const flags = { stopAtPositional: true };
+      await expect(parser.parse(['0', '-f'])).resolves.toEqual({ flag: true, strings: ['0'] });
+      await expect(parser.parse(['-f', '0', '-f', '-s'], flags)).resolves.toEqual({
+        flag: true,
+        strings: ['0', '-f', '-s'],
+      });
+      await expect(parser.parse(['-s', '0', '-f'], flags)).resolves.toEqual({
+        flag: true,
+        strings: ['0'],
+      });
+    });
+
+    it('should stop processing option names at the first positional argument of a command', async () => {
+      const options = {
+        command: {
+          type: 'command',
+          names: ['cmd'],
+          options: {
+            flag: {
+              type: 'flag',
+              names: ['-f'],
+            },
+            strings: {
+              type: 'strings',
+              positional: true,
+            },
+          },
+          stopAtPositional: true,
+          exec: ({ param }) => param,
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      await expect(parser.parse(['cmd', '0', '-f'])).resolves.toEqual({
+        command: { flag: undefined, strings: ['0', '-f'] },
+      });
+    });
+
+    it('should complete option names only for the first positional argument', async () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+        },
+        strings: {
+          type: 'strings',
+          enums: ['one', 'two'],
+          positional: true,
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const flags = { stopAtPositional: true, compIndex: 4 };
+      await expect(parser.parse('cmd ', flags)).rejects.toThrow(/^one\ntwo\n-f$/);
+      await expect(parser.parse('cmd one ', { ...flags, compIndex: 8 })).rejects.toThrow(
+        /^one\ntwo$/,
+      );
+    });
   });
 });
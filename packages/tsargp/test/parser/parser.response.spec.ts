@@ -0,0 +1,118 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { promises } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Options, ParsingFlags } from '../../lib';
+import { ArgumentParser } from '../../lib';
+import '../utils.spec'; // initialize globals
+
+describe('ArgumentParser', () => {
+  describe('parse', () => {
+    const flags: ParsingFlags = { responseFiles: true };
+    const options = {
+      flag: {
+        type: 'flag',
+        names: ['-f'],
+      },
+      strings: {
+        type: 'strings',
+        names: ['-ss'],
+        enums: ['one', 'two three', '@four'],
+      },
+    } as const satisfies Options;
+    const parser = new ArgumentParser(options);
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await promises.mkdtemp(join(tmpdir(), 'tsargp-'));
+      await promises.mkdir(join(dir, 'sub'));
+      await promises.writeFile(join(dir, 'args'), `-ss one\n'two three'\n`);
+      await promises.writeFile(join(dir, 'nested'), `-f @sub/args`);
+      await promises.writeFile(join(dir, 'sub', 'args'), `-ss one`);
+      await promises.writeFile(join(dir, 'empty'), ``);
+      await promises.writeFile(join(dir, 'self'), `@self`);
+      await promises.writeFile(join(dir, 'cycle1'), `@cycle2`);
+      await promises.writeFile(join(dir, 'cycle2'), `@cycle1`);
+    });
+
+    afterAll(async () => {
+      await promises.rm(dir, { recursive: true });
+    });
+
+    it('should not expand response files by default', async () => {
+      await expect(parser.parse(['-ss', '@four'])).resolves.toEqual({
+        flag: undefined,
+        strings: ['@four'],
+      });
+    });
+
+    it('should ignore a lone at sign', async () => {
+      await expect(parser.parse(['-ss', '@'], flags)).rejects.toThrow(
+        `Invalid parameter to -ss: '@'. Possible values are {'one', 'two three', '@four'}.`,
+      );
+    });
+
+    it('should throw an error on missing response file', async () => {
+      const path = join(dir, 'missing');
+      await expect(parser.parse(['@' + path], flags)).rejects.toThrow(
+        `Could not find response file '${path}'.`,
+      );
+    });
+
+    it('should throw an error on response file that references itself', async () => {
+      const path = join(dir, 'self');
+      await expect(parser.parse(['@' + path], flags)).rejects.toThrow(
+        `Response file 'self' references itself.`,
+      );
+    });
+
+    it('should throw an error on response files that reference each other', async () => {
+      const path = join(dir, 'cycle1');
+      await expect(parser.parse(['@' + path], flags)).rejects.toThrow(
+        `Response file 'cycle1' references itself.`,
+      );
+    });
+
+    it('should expand an empty response file', async () => {
+      await expect(parser.parse(['@' + join(dir, 'empty')], flags)).resolves.toEqual({
+        flag: undefined,
+        strings: undefined,
+      });
+    });
+
+    it('should expand a response file', async () => {
+      await expect(parser.parse(['-f', '@' + join(dir, 'args')], flags)).resolves.toEqual({
+        flag: true,
+        strings: ['one', 'two three'],
+      });
+    });
+
+    it('should expand nested response files relative to the referencing file', async () => {
+      await expect(parser.parse(['@' + join(dir, 'nested')], flags)).resolves.toEqual({
+        flag: true,
+        strings: ['one'],
+      });
+    });
+
+    it('should complete an argument after an expanded response file', async () => {
+      const cmdLine = `cmd @${join(dir, 'args')} `;
+      await expect(parser.parse(cmdLine, { ...flags, compIndex: cmdLine.length })).rejects.toThrow(
+        /^one\ntwo three\n@four\n-f\n-ss$/,
+      );
+    });
+
+    it('should not expand the argument being completed', async () => {
+      const cmdLine = `cmd -ss @${join(dir, 'args')}`;
+      await expect(parser.parse(cmdLine, { ...flags, compIndex: cmdLine.length })).rejects.toThrow(
+        /^$/,
+      );
+    });
+
+    it('should ignore errors in response files while completing', async () => {
+      const cmdLine = `cmd @${join(dir, 'missing')} @${join(dir, 'self')} -`;
+      await expect(parser.parse(cmdLine, { ...flags, compIndex: cmdLine.length })).rejects.toThrow(
+        /^-f\n-ss$/,
+      );
+    });
+  });
+});
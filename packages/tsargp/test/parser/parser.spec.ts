@@ -124,6 +124,26 @@ describe('ArgumentParser', () => {
         );
       });
 
+      it('should throw a help message with a man page format', async () => {
+        const options = {
+          flag: {
+            type: 'flag',
+            names: ['-f', '--flag'],
+          },
+          help: {
+            type: 'help',
+            names: ['-h'],
+            useFormat: true,
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['-h', 'man'], { progName: 'prog' })).rejects.toThrow(
+          '.TH PROG 1\n.SH NAME\nprog\n' +
+            '.SH SYNOPSIS\n\\fBprog\\fR [(\\fB\\-f\\fR|\\fB\\-\\-flag\\fR)] [\\fB\\-h\\fR]\n' + // cspell:disable-line
+            '.SH OPTIONS\n.TP\n\\fB\\-f\\fR, \\fB\\-\\-flag\\fR\n.TP\n\\fB\\-h\\fR',
+        );
+      });
+
       it('should throw a help message with filtered options', async () => {
         const options = {
           flag1: {
@@ -193,6 +213,43 @@ describe('ArgumentParser', () => {
         await expect(parser.parse(['-h', 'cmd2'])).rejects.toThrow('  -f\n  -h');
         await expect(parser.parse(['-h', 'cmd2', '-f'])).rejects.toThrow('  -f');
       });
+
+      it('should throw a help message with a commands section and async options callbacks', async () => {
+        const options = {
+          help: {
+            type: 'help',
+            names: ['-h'],
+            sections: [{ type: 'commands' }],
+          },
+          command: {
+            type: 'command',
+            names: ['cmd1'],
+            options: async () => ({
+              flag: {
+                type: 'flag',
+                names: ['-f'],
+              },
+              command: {
+                type: 'command',
+                names: ['cmd2'],
+                options: async () => ({
+                  string: {
+                    type: 'string',
+                    names: ['-s'],
+                  },
+                }),
+              },
+            }),
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['-h'])).rejects.toThrow(
+          'cmd1 [-f] [cmd2 ...]\n  cmd2 [-s <string>]',
+        );
+        expect(() => new ArgumentParser(options).parseSync(['-h'])).toThrow(
+          'Option cmd1 has an asynchronous callback, which cannot be used in synchronous parsing.',
+        );
+      });
     });
 
     describe('version', () => {
@@ -248,6 +305,87 @@ describe('ArgumentParser', () => {
       });
     });
 
+    describe('completion', () => {
+      it('should save a completion script when a completion option asks so', async () => {
+        const options = {
+          completion: {
+            type: 'completion',
+            names: ['--completion'],
+            saveMessage: true,
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse([])).resolves.toEqual({ completion: undefined });
+        const { completion } = await parser.parse(['--completion', 'bash'], { progName: 'prog' });
+        expect(completion?.[0]).toEqual('# bash completion for prog');
+      });
+
+      it('should throw a completion script for the shell in the option definition', async () => {
+        const options = {
+          completion: {
+            type: 'completion',
+            names: ['--completion'],
+            shell: 'fish',
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['--completion'], { progName: 'prog' })).rejects.toThrow(
+          /^# fish completion for prog\n/,
+        );
+      });
+
+      it('should throw a completion script for the shell in the environment', async () => {
+        const options = {
+          completion: {
+            type: 'completion',
+            names: ['--completion'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        process.env['SHELL'] = '/usr/bin/zsh';
+        await expect(parser.parse(['--completion'], { progName: 'prog' })).rejects.toThrow(
+          /^#compdef prog\n/,
+        );
+        process.env['SHELL'] = '';
+      });
+
+      it('should fall back to the default shell when the next argument is not a shell', async () => {
+        const options = {
+          completion: {
+            type: 'completion',
+            names: ['--completion'],
+            shell: 'bash',
+          },
+          flag: {
+            type: 'flag',
+            names: ['-v'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['--completion', '-v'], { progName: 'prog' })).rejects.toThrow(
+          /^# bash completion for prog\n/,
+        );
+        await expect(parser.parse(['--completion', 'pwsh'], { progName: 'prog' })).rejects.toThrow(
+          /^# PowerShell completion for prog\n/,
+        );
+      });
+
+      it('should throw an error on a completion option with an unknown shell', async () => {
+        const options = {
+          completion: {
+            type: 'completion',
+            names: ['--completion'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        process.env['SHELL'] = '/bin/tcsh';
+        await expect(parser.parse(['--completion', 'csh'])).rejects.toThrow(
+          `Invalid parameter to --completion: 'tcsh'. Possible values are {'bash', 'zsh', 'fish', 'pwsh'}.`,
+        );
+        process.env['SHELL'] = '';
+      });
+    });
+
     describe('function', () => {
       it('should handle a function option with an asynchronous callback', async () => {
         const options = {
@@ -332,6 +470,7 @@ describe('ArgumentParser', () => {
           index: 0,
           name: '-f',
           param: [],
+          sources: { function: { kind: 'cli', name: '-f', index: 0 } },
           comp: false,
         });
         options.function.exec.mockClear();
@@ -342,6 +481,7 @@ describe('ArgumentParser', () => {
           index: 0,
           name: '-f',
           param: ['-f'],
+          sources: { function: { kind: 'cli', name: '-f', index: 0 } },
           comp: false,
         });
         expect(options.function.exec).toHaveBeenCalledTimes(2);
@@ -486,6 +626,7 @@ describe('ArgumentParser', () => {
           index: 0,
           name: '-c',
           param: { flag: undefined },
+          sources: { command: { kind: 'cli', name: '-c', index: 0, nested: {} } },
         });
         options.command.exec.mockClear();
         await expect(parser.parse(['-c', '-f'])).resolves.toEqual({ command: { flag: true } });
@@ -495,6 +636,14 @@ describe('ArgumentParser', () => {
           index: 0,
           name: '-c',
           param: { flag: true },
+          sources: {
+            command: {
+              kind: 'cli',
+              name: '-c',
+              index: 0,
+              nested: { flag: { kind: 'cli', name: '-f', index: 1 } },
+            },
+          },
         });
       });
 
@@ -521,6 +670,14 @@ describe('ArgumentParser', () => {
           index: 0,
           name: '-c',
           param: { flag: true },
+          sources: {
+            command: {
+              kind: 'cli',
+              name: '-c',
+              index: 0,
+              nested: { flag: { kind: 'cli', name: '-f', index: 1 } },
+            },
+          },
         });
       });
 
@@ -590,6 +747,87 @@ describe('ArgumentParser', () => {
       });
     });
 
+    describe('count', () => {
+      it('should increment a count option every time it is specified', async () => {
+        const options = {
+          count: {
+            type: 'count',
+            names: ['-v', '--verbose'],
+            negationNames: ['-no-v'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse([])).resolves.toEqual({ count: undefined });
+        await expect(parser.parse(['-v'])).resolves.toEqual({ count: 1 });
+        await expect(parser.parse(['-v', '--verbose', '-v'])).resolves.toEqual({ count: 3 });
+        await expect(parser.parse(['-v', '-no-v'])).resolves.toEqual({ count: 0 });
+        await expect(parser.parse(['-v', '-no-v', '-v'])).resolves.toEqual({ count: 1 });
+      });
+
+      it('should increment a count option specified in a cluster argument', async () => {
+        const options = {
+          count: {
+            type: 'count',
+            names: ['-v'],
+            clusterLetters: 'v',
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        const flags = { clusterPrefix: '-' };
+        await expect(parser.parse(['-vvv'], flags)).resolves.toEqual({ count: 3 });
+      });
+
+      it('should throw an error on count value not satisfying a range constraint', async () => {
+        const options = {
+          count: {
+            type: 'count',
+            names: ['-v'],
+            range: [0, 2],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['-v', '-v'])).resolves.toEqual({ count: 2 });
+        await expect(parser.parse(['-v', '-v', '-v'])).rejects.toThrow(
+          `Invalid parameter to -v: 3. Value must be in the range [0, 2].`,
+        );
+      });
+
+      it('should read a count value from an environment variable', async () => {
+        const options = {
+          count: {
+            type: 'count',
+            names: ['-v'],
+            envVar: 'COUNT_VERBOSITY',
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        process.env['COUNT_VERBOSITY'] = '2';
+        await expect(parser.parse([])).resolves.toEqual({ count: 2 });
+        await expect(parser.parse(['-v'])).resolves.toEqual({ count: 1 });
+        // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+        delete process.env['COUNT_VERBOSITY'];
+      });
+
+      it('should check the value of a count option in a requirement', async () => {
+        const options = {
+          flag: {
+            type: 'flag',
+            names: ['-f'],
+            requires: { count: 2 },
+          },
+          count: {
+            type: 'count',
+            names: ['-v'],
+            default: 0,
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['-f', '-v', '-v'])).resolves.toEqual({ flag: true, count: 2 });
+        await expect(parser.parse(['-f', '-v'])).rejects.toThrow(`Option -f requires -v == 2.`);
+        await expect(parser.parse([])).resolves.toEqual({ flag: undefined, count: 0 });
+      });
+    });
+
     describe('boolean', () => {
       it('should throw an error on boolean option with missing parameter', async () => {
         const options = {
@@ -877,6 +1115,591 @@ describe('ArgumentParser', () => {
         });
       });
     });
+
+    describe('record', () => {
+      it('should throw an error on record option with missing parameter', async () => {
+        const options = {
+          record: {
+            type: 'record',
+            names: ['-D'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['-D'])).rejects.toThrow(`Missing parameter to -D.`);
+      });
+
+      it('should throw an error on record option with a parameter that is not a pair', async () => {
+        const options = {
+          record: {
+            type: 'record',
+            names: ['-D'],
+            pairSeparator: ':',
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['-D', 'a=1'])).rejects.toThrow(
+          `Invalid parameter to -D: 'a=1'. Value must be a key-value pair delimited by ':'.`,
+        );
+      });
+
+      it('should handle a record option specified multiple times', async () => {
+        const options = {
+          record: {
+            type: 'record',
+            names: ['-D'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse([])).resolves.toEqual({ record: undefined });
+        await expect(parser.parse(['-D', 'a=1', 'b=x=y', '-D', 'c=', 'a=01'])).resolves.toEqual({
+          record: { a: '01', b: 'x=y', c: '' },
+        });
+        await expect(parser.parse(['-D', 'a=1.5', 'b=-2', 'c=1e3', 'd=NaN'])).resolves.toEqual({
+          record: { a: 1.5, b: -2, c: '1e3', d: NaN },
+        });
+      });
+
+      it('should handle the duplicate key policies of a record option', async () => {
+        const options = {
+          record1: {
+            type: 'record',
+            names: ['-D1'],
+            duplicates: 'error',
+          },
+          record2: {
+            type: 'record',
+            names: ['-D2'],
+            duplicates: 'append',
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['-D1', 'a=1', '-D1', 'a=2'])).rejects.toThrow(
+          `Option -D1 has duplicate key 'a'.`,
+        );
+        await expect(parser.parse(['-D2', 'a=1', 'b=2', '-D2', 'a=x'])).resolves.toEqual({
+          record1: undefined,
+          record2: { a: [1, 'x'], b: [2] },
+        });
+      });
+
+      it('should handle keys inherited from the object prototype', async () => {
+        const options = {
+          record1: {
+            type: 'record',
+            names: ['-D1'],
+            duplicates: 'error',
+          },
+          record2: {
+            type: 'record',
+            names: ['-D2'],
+            duplicates: 'append',
+          },
+          record3: {
+            type: 'record',
+            names: ['-D3'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        const args = ['constructor=1', 'toString=x', '__proto__=y'];
+        const { record1, record2, record3 } = await parser.parse([
+          ...['-D1', ...args],
+          ...['-D2', ...args],
+          ...['-D3', ...args],
+        ]);
+        expect(Object.entries(record1 ?? {})).toEqual([
+          ['constructor', 1],
+          ['toString', 'x'],
+          ['__proto__', 'y'],
+        ]);
+        expect(Object.entries(record2 ?? {})).toEqual([
+          ['constructor', [1]],
+          ['toString', ['x']],
+          ['__proto__', ['y']],
+        ]);
+        expect(Object.entries(record3 ?? {})).toEqual([
+          ['constructor', 1],
+          ['toString', 'x'],
+          ['__proto__', 'y'],
+        ]);
+        await expect(parser.parse(['-D1', 'toString=x', '-D1', 'toString=y'])).rejects.toThrow(
+          `Option -D1 has duplicate key 'toString'.`,
+        );
+      });
+
+      it('should normalize and check the constraints of a record option', async () => {
+        const options = {
+          record: {
+            type: 'record',
+            names: ['-D'],
+            enums: ['a', 'b'],
+            trim: true,
+            case: 'upper',
+            conv: 'trunc',
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['-D', 'a= x ', 'b=1.5'])).resolves.toEqual({
+          record: { a: 'X', b: 1 },
+        });
+        await expect(parser.parse(['-D', 'c=1'])).rejects.toThrow(
+          `Invalid parameter to -D: 'c'. Possible values are {'a', 'b'}.`,
+        );
+      });
+
+      it('should check the value of a record option in a requirement', async () => {
+        const options = {
+          flag: {
+            type: 'flag',
+            names: ['-f'],
+            requires: { record: { b: 2, a: '1' } },
+          },
+          record: {
+            type: 'record',
+            names: ['-D'],
+            regex: /^[a-z]$/,
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['-f', '-D', 'a=1', 'b=2'])).resolves.toEqual({
+          flag: true,
+          record: { a: 1, b: 2 },
+        });
+        await expect(parser.parse(['-f', '-D', 'a=1'])).rejects.toThrow(
+          `Option -f requires -D == ['a=1' 'b=2'].`,
+        );
+        await expect(parser.parse(['-D', 'A=1'])).rejects.toThrow(
+          `Invalid parameter to -D: 'A'. Value must match the regex /^[a-z]$/.`,
+        );
+      });
+
+      it('should complete the keys of a record option', async () => {
+        const options = {
+          record: {
+            type: 'record',
+            names: ['-D'],
+            enums: ['one', 'two'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse('cmd -D ', { compIndex: 7 })).rejects.toThrow(/^one=\ntwo=$/);
+      });
+    });
+
+    describe('bigint', () => {
+      it('should throw an error on bigint option with an invalid parameter', async () => {
+        const options = {
+          bigint: {
+            type: 'bigint',
+            names: ['-b'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['-b', '1.5'])).rejects.toThrow(
+          `Invalid parameter to -b: '1.5'. Value must be an integer.`,
+        );
+        await expect(parser.parse(['-b', '1e3'])).rejects.toThrow(
+          `Invalid parameter to -b: '1e3'. Value must be an integer.`,
+        );
+        await expect(parser.parse(['-b', ''])).rejects.toThrow(
+          `Invalid parameter to -b: ''. Value must be an integer.`,
+        );
+      });
+
+      it('should parse the value of a bigint option without loss of precision', async () => {
+        const options = {
+          bigint: {
+            type: 'bigint',
+            names: ['-b'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        const values: { bigint: bigint | undefined } = await parser.parse([
+          '-b',
+          '9007199254740993',
+        ]);
+        expect(values).toEqual({ bigint: 9007199254740993n });
+        await expect(parser.parse(['-b', '-0x1f'])).resolves.toEqual({ bigint: -31n });
+        await expect(parser.parse(['-b', '+0b101'])).resolves.toEqual({ bigint: 5n });
+      });
+
+      it('should round the fractional parameters of a bigint option', async () => {
+        const options = {
+          trunc: {
+            type: 'bigint',
+            names: ['-t'],
+            conv: 'trunc',
+          },
+          floor: {
+            type: 'bigint',
+            names: ['-f'],
+            conv: 'floor',
+          },
+          ceil: {
+            type: 'bigint',
+            names: ['-c'],
+            conv: 'ceil',
+          },
+          round: {
+            type: 'bigints',
+            names: ['-r'],
+            conv: 'round',
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(
+          parser.parse([
+            '-t',
+            '-1.9',
+            '-f',
+            '-1.1',
+            '-c',
+            '1.01',
+            '-r',
+            '2.5',
+            '-2.5',
+            '-2.51',
+            '.4',
+          ]),
+        ).resolves.toEqual({ trunc: -1n, floor: -2n, ceil: 2n, round: [3n, -2n, -3n, 0n] });
+        await expect(
+          parser.parse(['-t', '1.9', '-f', '1.9', '-c', '-1.9', '-r', '9007199254740992.5']),
+        ).resolves.toEqual({ trunc: 1n, floor: 1n, ceil: -1n, round: [9007199254740993n] });
+      });
+
+      it('should check the constraints of a bigints option', async () => {
+        const options = {
+          bigints: {
+            type: 'bigints',
+            names: ['-b'],
+            range: [0, 2n ** 64n],
+            separator: ',',
+            unique: true,
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        const values: { bigints: Array<bigint> | undefined } = await parser.parse([
+          '-b',
+          '18446744073709551616,1,18446744073709551616',
+        ]);
+        expect(values).toEqual({ bigints: [18446744073709551616n, 1n] });
+        await expect(parser.parse(['-b', '18446744073709551617'])).rejects.toThrow(
+          `Invalid parameter to -b: 18446744073709551617. Value must be in the range [0, 18446744073709551616].`,
+        );
+      });
+
+      it('should check the value of a bigint option in a requirement', async () => {
+        const options = {
+          flag: {
+            type: 'flag',
+            names: ['-f'],
+            requires: { bigint: 9007199254740993n },
+          },
+          bigint: {
+            type: 'bigint',
+            names: ['-b'],
+            enums: [9007199254740992n, 9007199254740993n],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['-f', '-b', '9007199254740993'])).resolves.toEqual({
+          flag: true,
+          bigint: 9007199254740993n,
+        });
+        await expect(parser.parse(['-f', '-b', '9007199254740992'])).rejects.toThrow(
+          `Option -f requires -b == 9007199254740993.`,
+        );
+        await expect(parser.parse(['-b', '1'])).rejects.toThrow(
+          `Invalid parameter to -b: 1. Possible values are {9007199254740992, 9007199254740993}.`,
+        );
+      });
+    });
+
+    describe('duration', () => {
+      it('should throw an error on duration option with an invalid parameter', async () => {
+        const options = {
+          duration: {
+            type: 'duration',
+            names: ['-t'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['-t', '5x'])).rejects.toThrow(
+          `Invalid parameter to -t: '5x'. Value must be a duration.`,
+        );
+        await expect(parser.parse(['-t', 'm'])).rejects.toThrow(
+          `Invalid parameter to -t: 'm'. Value must be a duration.`,
+        );
+        for (const param of ['Infinity', '1e3', '0x10', '1' + '0'.repeat(400), '--5s', '']) {
+          await expect(parser.parse(['-t', param])).rejects.toThrow(
+            `Invalid parameter to -t: '${param}'. Value must be a duration.`,
+          );
+        }
+      });
+
+      it('should parse signed parameters of a duration option', async () => {
+        const options = {
+          duration: {
+            type: 'duration',
+            names: ['-t'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['-t', '-5000'])).resolves.toEqual({ duration: -5000 });
+        await expect(parser.parse(['-t', '-5s'])).resolves.toEqual({ duration: -5000 });
+        await expect(parser.parse(['-t', '+1h 30m'])).resolves.toEqual({ duration: 5400000 });
+        await expect(parser.parse(['-t', '-0'])).resolves.toEqual({ duration: 0 });
+      });
+
+      it('should parse the units of a duration option', async () => {
+        const options = {
+          duration: {
+            type: 'duration',
+            names: ['-t'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        const values: { duration: number | undefined } = await parser.parse(['-t', '30s']);
+        expect(values).toEqual({ duration: 30000 });
+        await expect(parser.parse(['-t', '1h 30m'])).resolves.toEqual({ duration: 5400000 });
+        await expect(parser.parse(['-t', '1.5d250ms'])).resolves.toEqual({ duration: 129600250 });
+        await expect(parser.parse(['-t', '2w'])).resolves.toEqual({ duration: 1209600000 });
+        await expect(parser.parse(['-t', '500'])).resolves.toEqual({ duration: 500 });
+        await expect(parser.parse(['-t', ' 1 h 30 m '])).resolves.toEqual({ duration: 5400000 });
+      });
+
+      it('should throw an error on duration option with internal whitespace', async () => {
+        const options = {
+          duration: {
+            type: 'duration',
+            names: ['-t'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        for (const param of ['1 0s', '1  s', '1h  30m', '- 5s', '5 00']) {
+          await expect(parser.parse(['-t', param])).rejects.toThrow(
+            `Invalid parameter to -t: '${param}'. Value must be a duration.`,
+          );
+        }
+      });
+
+      it('should check the range of a durations option', async () => {
+        const options = {
+          durations: {
+            type: 'durations',
+            names: ['-t'],
+            range: [1000, 60000],
+            separator: ',',
+            unique: true,
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        const values: { durations: Array<number> | undefined } = await parser.parse([
+          '-t',
+          '1s,1m,1000ms',
+        ]);
+        expect(values).toEqual({ durations: [1000, 60000] });
+        await expect(parser.parse(['-t', '1s,1m1s'])).rejects.toThrow(
+          `Invalid parameter to -t: 1m1s. Value must be in the range [1s, 1m].`,
+        );
+      });
+    });
+
+    describe('size', () => {
+      it('should throw an error on size option with an invalid parameter', async () => {
+        const options = {
+          size: {
+            type: 'size',
+            names: ['-s'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['-s', '1QB'])).rejects.toThrow(
+          `Invalid parameter to -s: '1QB'. Value must be a size.`,
+        );
+        await expect(parser.parse(['-s', '1k'])).rejects.toThrow(
+          `Invalid parameter to -s: '1k'. Value must be a size.`,
+        );
+        for (const param of ['Infinity', '1e400', '0x10', '1' + '0'.repeat(400) + 'PB']) {
+          await expect(parser.parse(['-s', param])).rejects.toThrow(
+            `Invalid parameter to -s: '${param}'. Value must be a size.`,
+          );
+        }
+      });
+
+      it('should parse signed parameters of a size option', async () => {
+        const options = {
+          size: {
+            type: 'size',
+            names: ['-s'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['-s', '-5000'])).resolves.toEqual({ size: -5000 });
+        await expect(parser.parse(['-s', '-1kB'])).resolves.toEqual({ size: -1000 });
+        await expect(parser.parse(['-s', '+1KiB'])).resolves.toEqual({ size: 1024 });
+      });
+
+      it('should parse the units of a size option', async () => {
+        const options = {
+          size: {
+            type: 'size',
+            names: ['-s'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        const values: { size: number | undefined } = await parser.parse(['-s', '512MiB']);
+        expect(values).toEqual({ size: 536870912 });
+        await expect(parser.parse(['-s', '1.5 kb'])).resolves.toEqual({ size: 1500 });
+        await expect(parser.parse(['-s', '2GB'])).resolves.toEqual({ size: 2e9 });
+        await expect(parser.parse(['-s', '10b'])).resolves.toEqual({ size: 10 });
+        await expect(parser.parse(['-s', '1024'])).resolves.toEqual({ size: 1024 });
+      });
+
+      it('should throw an error on size option with internal whitespace', async () => {
+        const options = {
+          size: {
+            type: 'size',
+            names: ['-s'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        for (const param of ['1 2 KB', '1  KB', '1 K B', '- 1KB']) {
+          await expect(parser.parse(['-s', param])).rejects.toThrow(
+            `Invalid parameter to -s: '${param}'. Value must be a size.`,
+          );
+        }
+      });
+
+      it('should normalize and check the range of a sizes option', async () => {
+        const options = {
+          sizes: {
+            type: 'sizes',
+            names: ['-s'],
+            range: [0, 2 ** 20],
+            conv: 'ceil',
+            append: true,
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        const values: { sizes: Array<number> | undefined } = await parser.parse([
+          '-s',
+          '1KiB',
+          '-s',
+          '0.5B',
+        ]);
+        expect(values).toEqual({ sizes: [1024, 1] });
+        await expect(parser.parse(['-s', '2MiB'])).rejects.toThrow(
+          `Invalid parameter to -s: 2MiB. Value must be in the range [0B, 1MiB].`,
+        );
+      });
+    });
+
+    describe('date', () => {
+      it('should throw an error on date option with an invalid parameter', async () => {
+        const options = {
+          date: {
+            type: 'date',
+            names: ['-d'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        await expect(parser.parse(['-d', 'abc'])).rejects.toThrow(
+          `Invalid parameter to -d: 'abc'. Value must be a date.`,
+        );
+        for (const param of ['5', 'Jan 1, 2024', '2024/01/01', '2024-01-01 10:00', '2024-13-01']) {
+          await expect(parser.parse(['-d', param])).rejects.toThrow(
+            `Invalid parameter to -d: '${param}'. Value must be a date.`,
+          );
+        }
+      });
+
+      it('should throw an error on date option with a day that does not exist', async () => {
+        const options = {
+          date: {
+            type: 'date',
+            names: ['-d'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        for (const param of ['2024-02-30', '2024-04-31', '2023-02-29T10:00', '2024-01-00']) {
+          await expect(parser.parse(['-d', param])).rejects.toThrow(
+            `Invalid parameter to -d: '${param}'. Value must be a date.`,
+          );
+        }
+        await expect(parser.parse(['-d', '2024-02-29'])).resolves.toEqual({
+          date: new Date('2024-02-29'),
+        });
+        await expect(parser.parse(['-d', '2024-01-31T23:00-05:00'])).resolves.toEqual({
+          date: new Date('2024-01-31T23:00-05:00'),
+        });
+      });
+
+      it('should parse dates in ISO format', async () => {
+        const options = {
+          date: {
+            type: 'date',
+            names: ['-d'],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        for (const param of [
+          '2024',
+          '2024-01',
+          '2024-01-02',
+          '2024-01-02T10:00',
+          '2024-01-02T10:00:30.5Z',
+          '2024-01-02T10:00:30+02:00',
+        ]) {
+          await expect(parser.parse(['-d', param])).resolves.toEqual({ date: new Date(param) });
+        }
+      });
+
+      it('should parse the value of a date option', async () => {
+        const options = {
+          date: {
+            type: 'date',
+            names: ['-d'],
+            range: [Date.parse('2000-01-01'), Infinity],
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        const values: { date: Date | undefined } = await parser.parse(['-d', '2024-01-02']);
+        expect(values).toEqual({ date: new Date('2024-01-02') });
+        await expect(parser.parse(['-d', '1999-12-31T12:00:00Z'])).rejects.toThrow(
+          `Invalid parameter to -d: 1999-12-31T12:00:00Z. Value must be in the range [2000-01-01, Infinity].`,
+        );
+      });
+
+      it('should remove duplicates from a dates option and check it in a requirement', async () => {
+        const options = {
+          flag: {
+            type: 'flag',
+            names: ['-f'],
+            requires: { dates: [new Date('2024-01-01'), new Date('2024-01-02')] },
+          },
+          dates: {
+            type: 'dates',
+            names: ['-d'],
+            unique: true,
+          },
+        } as const satisfies Options;
+        const parser = new ArgumentParser(options);
+        const values: { dates: Array<Date> | undefined } = await parser.parse([
+          '-f',
+          '-d',
+          '2024-01-01',
+          '2024-01-02',
+          '2024-01-01T00:00:00Z',
+        ]);
+        expect(values).toEqual({
+          flag: true,
+          dates: [new Date('2024-01-01'), new Date('2024-01-02')],
+        });
+        await expect(parser.parse(['-f', '-d', '2024-01-01'])).rejects.toThrow(
+          `Option -f requires -d == [2024-01-01 2024-01-02].`,
+        );
+      });
+    });
   });
 
   describe('parseInto', () => {
@@ -989,5 +1812,160 @@ describe('ArgumentParser', () => {
         `Option -f is deprecated and may be removed in future releases.\n`,
       );
     });
+
+    it('should not return the sources of option values by default', async () => {
+      const parser = new ArgumentParser({});
+      await expect(parser.parseInto({}, [])).resolves.toEqual({});
+    });
+
+    it('should return the sources of option values', async () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+        },
+        string: {
+          type: 'string',
+          names: ['-s'],
+          envVar: 'STRING',
+        },
+        number: {
+          type: 'number',
+          names: ['-n'],
+          default: 1,
+        },
+        strings: {
+          type: 'strings',
+          names: ['-ss'],
+          fallback: [],
+          positional: true,
+        },
+        numbers: {
+          type: 'numbers',
+          names: ['-ns'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const values = {} as OptionValues<typeof options>;
+      process.env['STRING'] = 'abc';
+      const flags = { trackSources: true };
+      await expect(parser.parseInto(values, ['-f', '-ss', 'a', '-f', 'b'], flags)).resolves.toEqual(
+        {
+          sources: {
+            flag: { kind: 'cli', name: '-f', index: 3 },
+            string: { kind: 'env', name: 'STRING' },
+            number: { kind: 'default' },
+            strings: { kind: 'cli', name: '-ss', index: 4 },
+          },
+        },
+      );
+      await expect(parser.parseInto(values, ['-ss'], flags)).resolves.toEqual({
+        sources: {
+          string: { kind: 'env', name: 'STRING' },
+          number: { kind: 'default' },
+          strings: { kind: 'fallback', name: '-ss', index: 0 },
+        },
+      });
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete process.env['STRING'];
+    });
+
+    it('should pass the sources of option values to a command callback', async () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+          default: false,
+        },
+        command: {
+          type: 'command',
+          names: ['-c'],
+          exec: vi.fn(),
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      await parser.parse(['-c']);
+      expect(options.command.exec).toHaveBeenCalledWith({
+        values: { flag: false, command: undefined },
+        index: 0,
+        name: '-c',
+        param: {},
+        sources: {
+          flag: { kind: 'default' },
+          command: { kind: 'cli', name: '-c', index: 0, nested: {} },
+        },
+      });
+    });
+
+    it('should return the sources of the values of a nested command', async () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+        },
+        command: {
+          type: 'command',
+          names: ['-c'],
+          options: {
+            number: {
+              type: 'number',
+              names: ['-n'],
+              default: 1,
+            },
+            command: {
+              type: 'command',
+              names: ['-c'],
+              options: {
+                flag: {
+                  type: 'flag',
+                  names: ['-f'],
+                },
+              },
+            },
+          },
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const values = {} as OptionValues<typeof options>;
+      const flags = { trackSources: true };
+      await expect(parser.parseInto(values, ['-f', '-c', '-c', '-f'], flags)).resolves.toEqual({
+        sources: {
+          flag: { kind: 'cli', name: '-f', index: 0 },
+          command: {
+            kind: 'cli',
+            name: '-c',
+            index: 1,
+            nested: {
+              number: { kind: 'default' },
+              command: {
+                kind: 'cli',
+                name: '-c',
+                index: 2,
+                nested: { flag: { kind: 'cli', name: '-f', index: 3 } },
+              },
+            },
+          },
+        },
+      });
+    });
+
+    it('should pass a snapshot of the sources of option values to custom callbacks', async () => {
+      const options = {
+        function: {
+          type: 'function',
+          names: ['-f'],
+          exec: vi.fn(),
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      await parser.parse(['-f', '-f']);
+      expect(options.function.exec).toHaveBeenCalledTimes(2);
+      expect(options.function.exec.mock.calls[0][0]).toHaveProperty('sources', {
+        function: { kind: 'cli', name: '-f', index: 0 },
+      });
+      expect(options.function.exec.mock.calls[1][0]).toHaveProperty('sources', {
+        function: { kind: 'cli', name: '-f', index: 1 },
+      });
+    });
   });
 });
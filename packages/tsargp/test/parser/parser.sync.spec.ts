@@ -0,0 +1,234 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { promises } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Options } from '../../lib';
+import { ArgumentParser } from '../../lib';
+import '../utils.spec'; // initialize globals
+
+describe('ArgumentParser', () => {
+  describe('parseSync', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await promises.mkdtemp(join(tmpdir(), 'tsargp-'));
+      await promises.writeFile(join(dir, 'args'), `-s abc`);
+      await promises.writeFile(join(dir, 'config.json'), `{"number": 123}`);
+    });
+
+    afterAll(async () => {
+      await promises.rm(dir, { recursive: true });
+    });
+
+    it('should parse options with synchronous callbacks', () => {
+      const options = {
+        string: {
+          type: 'string',
+          names: ['-s'],
+          parse: ({ param }) => param.toUpperCase(),
+        },
+        number: {
+          type: 'number',
+          names: ['-n'],
+          default: () => 1,
+          requires: () => true,
+        },
+        function: {
+          type: 'function',
+          names: ['-f'],
+          exec: () => 'called',
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      expect(parser.parseSync(['-s', 'abc', '-f'])).toEqual({
+        string: 'ABC',
+        number: 1,
+        function: 'called',
+      });
+    });
+
+    it('should parse a command with a synchronous options callback', () => {
+      const options = {
+        command: {
+          type: 'command',
+          names: ['cmd'],
+          options: () => ({ flag: { type: 'flag', names: ['-f'] } }) as const,
+          exec: ({ param }) => param,
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      expect(parser.parseSync(['cmd', '-f'])).toEqual({ command: { flag: true } });
+    });
+
+    it('should throw a help message', () => {
+      const options = {
+        help: {
+          type: 'help',
+          names: ['-h'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      expect(() => parser.parseSync(['-h'], { progName: 'prog' })).toThrow(
+        `Usage:\n\n  prog [-h]\n\nOptions:\n\n  -h`,
+      );
+    });
+
+    it('should throw a version message on a version option with a resolve function', () => {
+      const options = {
+        version: {
+          type: 'version',
+          names: ['-v'],
+          resolve: (str) => `file://${import.meta.dirname}/${str}`,
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      expect(() => parser.parseSync(['-v'])).toThrow(/^0.1.0$/);
+    });
+
+    it('should expand response files and read configuration files', () => {
+      const options = {
+        string: {
+          type: 'string',
+          names: ['-s'],
+        },
+        number: {
+          type: 'number',
+          names: ['-n'],
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const flags = { responseFiles: true, configFile: join(dir, 'config.json') };
+      expect(parser.parseSync([`@${join(dir, 'args')}`], flags)).toEqual({
+        string: 'abc',
+        number: 123,
+      });
+    });
+
+    it('should throw an error on a missing response file', () => {
+      const parser = new ArgumentParser({});
+      const flags = { responseFiles: true };
+      expect(() => parser.parseSync([`@${join(dir, 'missing')}`], flags)).toThrow(
+        `Could not find response file '${join(dir, 'missing')}'.`,
+      );
+    });
+
+    it('should throw an error on an asynchronous parse callback', () => {
+      const options = {
+        string: {
+          type: 'string',
+          names: ['-s'],
+          parse: async ({ param }) => param,
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      expect(() => parser.parseSync(['-s', 'abc'])).toThrow(
+        `Option -s has an asynchronous callback, which cannot be used in synchronous parsing.`,
+      );
+    });
+
+    it('should throw an error on an asynchronous default callback', () => {
+      const options = {
+        string: {
+          type: 'string',
+          names: ['-s'],
+          default: async () => 'abc',
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      expect(() => parser.parseSync([])).toThrow(
+        `Option -s has an asynchronous callback, which cannot be used in synchronous parsing.`,
+      );
+    });
+
+    it('should throw an error on an asynchronous function callback', () => {
+      const options = {
+        function: {
+          type: 'function',
+          names: ['-f'],
+          exec: async () => 'called',
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      expect(() => parser.parseSync(['-f'])).toThrow(
+        `Option -f has an asynchronous callback, which cannot be used in synchronous parsing.`,
+      );
+    });
+
+    it('should throw an error on an asynchronous requirement callback', () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+          requires: async () => true,
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      expect(() => parser.parseSync(['-f'])).toThrow(
+        `Option -f has an asynchronous callback, which cannot be used in synchronous parsing.`,
+      );
+    });
+
+    it('should throw an error on an asynchronous options callback', () => {
+      const options = {
+        command: {
+          type: 'command',
+          names: ['cmd'],
+          options: async () => ({}),
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      expect(() => parser.parseSync(['cmd'])).toThrow(
+        `Option cmd has an asynchronous callback, which cannot be used in synchronous parsing.`,
+      );
+    });
+
+    it('should throw an error on a function callback that returns a thenable', () => {
+      const thenable = { then: vi.fn() };
+      const options = {
+        function: {
+          type: 'function',
+          names: ['-f'],
+          exec: () => thenable,
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      expect(() => parser.parseSync(['-f'])).toThrow(
+        `Option -f has an asynchronous callback, which cannot be used in synchronous parsing.`,
+      );
+      expect(thenable.then).toHaveBeenCalledWith(undefined, expect.any(Function));
+    });
+
+    it('should throw an error on file access when built-in modules are not available', () => {
+      const parser = new ArgumentParser({});
+      const flags = { responseFiles: true };
+      const { getBuiltinModule } = process as { getBuiltinModule?: unknown };
+      Object.assign(process, { getBuiltinModule: undefined });
+      try {
+        expect(() => parser.parseSync([`@${join(dir, 'args')}`], flags)).toThrow(
+          `Synchronous file access is not supported by this runtime. Use the asynchronous parse method.`,
+        );
+      } finally {
+        Object.assign(process, { getBuiltinModule });
+      }
+    });
+  });
+
+  describe('parseIntoSync', () => {
+    it('should parse into an existing object and return the parsing result', () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+          deprecated: 'yes',
+        },
+      } as const satisfies Options;
+      const parser = new ArgumentParser(options);
+      const values = { flag: false };
+      const { warning } = parser.parseIntoSync(values, ['-f'], { progName: 'prog' });
+      expect(values).toEqual({ flag: true });
+      expect(warning?.message).toEqual(
+        `Option -f is deprecated and may be removed in future releases.\n`,
+      );
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import { describe, expect, it } from 'vitest';
+import type { Options } from '../lib';
+import { generateSchema, style, tf } from '../lib';
+import './utils.spec'; // initialize globals
+
+describe('generateSchema', () => {
+  it('should handle zero options', async () => {
+    await expect(generateSchema({})).resolves.toEqual({
+      schema: {
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'object',
+        properties: {},
+        additionalProperties: false,
+      },
+      skipped: [],
+    });
+  });
+
+  it('should skip options that do not have a value', async () => {
+    const options = {
+      help: {
+        type: 'help',
+        names: ['-h'],
+      },
+      version: {
+        type: 'version',
+        names: ['-v'],
+        version: '1.0',
+      },
+      completion: {
+        type: 'completion',
+        names: ['-c'],
+      },
+    } as const satisfies Options;
+    const { schema } = await generateSchema(options);
+    expect(schema).toHaveProperty('properties', {});
+  });
+
+  it('should convert the types and constraints of valued options', async () => {
+    const options = {
+      flag: {
+        type: 'flag',
+        names: ['-f'],
+        desc: `A ${style(tf.bold)}flag${style(tf.clear)} option.`,
+        deprecated: 'reason',
+      },
+      count: {
+        type: 'count',
+        names: ['-c'],
+        range: [0, Infinity],
+      },
+      string: {
+        type: 'string',
+        names: ['-s'],
+        regex: /^\d+$/,
+        default: '1',
+      },
+      number: {
+        type: 'number',
+        names: ['-n'],
+        enums: [1, 2],
+        required: true,
+      },
+      strings: {
+        type: 'strings',
+        names: ['-ss'],
+        limit: 2,
+        unique: true,
+      },
+      numbers: {
+        type: 'numbers',
+        names: ['-ns'],
+        range: [-1, 1],
+      },
+      record: {
+        type: 'record',
+        names: ['-D'],
+        enums: ['a', 'b'],
+        duplicates: 'append',
+      },
+      function: {
+        type: 'function',
+        names: ['-fn'],
+      },
+    } as const satisfies Options;
+    const { schema } = await generateSchema(options);
+    expect(schema).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        flag: { description: 'A flag option.', deprecated: true, type: 'boolean' },
+        count: { type: 'integer', minimum: 0 },
+        string: { default: '1', type: 'string', pattern: '^\\d+$' },
+        number: { type: 'number', enum: [1, 2] },
+        strings: { type: 'array', items: { type: 'string' }, maxItems: 2, uniqueItems: true },
+        numbers: { type: 'array', items: { type: 'number', minimum: -1, maximum: 1 } },
+        record: {
+          type: 'object',
+          propertyNames: { type: 'string', enum: ['a', 'b'] },
+          additionalProperties: { type: 'array', items: { type: ['string', 'number'] } },
+        },
+        function: {},
+      },
+      required: ['number'],
+      additionalProperties: false,
+    });
+  });
+
+  it('should convert the types and constraints of options with units', async () => {
+    const options = {
+      duration: {
+        type: 'duration',
+        names: ['-t'],
+        range: [0, 60000],
+        default: 1000,
+      },
+      sizes: {
+        type: 'sizes',
+        names: ['-s'],
+        unique: true,
+      },
+      date: {
+        type: 'date',
+        names: ['-d'],
+        range: [0, Infinity],
+      },
+      dates: {
+        type: 'dates',
+        names: ['-ds'],
+      },
+    } as const satisfies Options;
+    const { schema, skipped } = await generateSchema(options);
+    expect(schema).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        duration: { default: 1000, type: ['string', 'number'], minimum: 0, maximum: 60000 },
+        sizes: { type: 'array', items: { type: ['string', 'number'] }, uniqueItems: true },
+        date: { type: 'string' },
+        dates: { type: 'array', items: { type: 'string' } },
+      },
+      additionalProperties: false,
+    });
+    expect(skipped).toEqual(['date.range']);
+  });
+
+  it('should convert the types of bigint options', async () => {
+    const options = {
+      bigint: {
+        type: 'bigint',
+        names: ['-b'],
+        range: [0, Infinity],
+        default: 9007199254740993n,
+      },
+      bigints: {
+        type: 'bigints',
+        names: ['-bs'],
+        enums: [1n, 2n],
+        default: [1n],
+      },
+    } as const satisfies Options;
+    const { schema, skipped } = await generateSchema(options);
+    expect(schema).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        bigint: { default: '9007199254740993', type: ['integer', 'string'] },
+        bigints: { default: ['1'], type: 'array', items: { type: ['integer', 'string'] } },
+      },
+      additionalProperties: false,
+    });
+    expect(skipped).toEqual(['bigint.range', 'bigints.enums']);
+  });
+
+  it('should report regular expressions with flags', async () => {
+    const options = {
+      string: {
+        type: 'string',
+        names: ['-s'],
+        regex: /^[a-z]+$/i,
+      },
+      record: {
+        type: 'record',
+        names: ['-D'],
+        regex: /^\w+$/u,
+      },
+    } as const satisfies Options;
+    const { schema, skipped } = await generateSchema(options);
+    expect(schema).toHaveProperty('properties.string', { type: 'string' });
+    expect(schema).toHaveProperty('properties.record.propertyNames', { type: 'string' });
+    expect(skipped).toEqual(['string.regex', 'record.regex']);
+  });
+
+  it('should convert the types of path options', async () => {
+    const options = {
+      path: {
+        type: 'path',
+        names: ['-p'],
+        default: 'file.json',
+      },
+      paths: {
+        type: 'paths',
+        names: ['-ps'],
+        limit: 2,
+      },
+    } as const satisfies Options;
+    const { schema } = await generateSchema(options);
+    expect(schema).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        path: { default: 'file.json', type: 'string' },
+        paths: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+      },
+      additionalProperties: false,
+    });
+  });
+
+  it('should report callback attributes', async () => {
+    const options = {
+      string: {
+        type: 'string',
+        names: ['-s'],
+        default: () => 'abc',
+        parse: ({ param }) => param,
+      },
+      function: {
+        type: 'function',
+        names: ['-f'],
+        exec() {},
+      },
+    } as const satisfies Options;
+    const { schema, skipped } = await generateSchema(options);
+    expect(schema).toHaveProperty('properties.string', { type: 'string' });
+    expect(skipped).toEqual(['string.default', 'string.parse', 'function.exec']);
+  });
+
+  it('should generate sub-schemas for nested commands, including recursive ones', async () => {
+    const command = {
+      type: 'command',
+      names: ['cmd'],
+      desc: 'A command.',
+      options: (): Options => ({
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+          default: () => true,
+        },
+        command,
+      }),
+    } as const satisfies Options[string];
+    const options = { 'my/cmd': command } as const satisfies Options;
+    const { schema, skipped } = await generateSchema(options);
+    expect(schema).toHaveProperty('properties', {
+      'my/cmd': {
+        description: 'A command.',
+        type: 'object',
+        properties: {
+          flag: { type: 'boolean' },
+          command: { $ref: '#/properties/my~1cmd' },
+        },
+        additionalProperties: false,
+      },
+    });
+    expect(skipped).toEqual(['my/cmd.flag.default']);
+  });
+});
@@ -1,5 +1,6 @@
 import { afterAll, describe, expect, it } from 'vitest';
-import { tf, style, TerminalString } from '../../lib';
+import { tf, fg, bg, style, fg8, bg8, ul8, fg24, bg24, TerminalString } from '../../lib';
+import { detectColorLevel, detectHyperlinks } from '../../lib';
 import { AnsiMessage, JsonMessage, WarnMessage, ErrorMessage, TextMessage } from '../../lib';
 import { resetEnv } from '../utils.spec'; // initialize globals
 
@@ -10,7 +11,7 @@ describe('AnsiMessage', () => {
     const str = new TerminalString().split('type script');
     const msg = new AnsiMessage(str);
     expect(msg.wrap(0)).toEqual('type script');
-    expect(msg.wrap(11)).toEqual('type script' + style(tf.clear));
+    expect(msg.wrap(11)).toEqual('type script');
     process.env['NO_COLOR'] = '1';
     expect(msg.wrap(0)).toEqual('type script');
     expect(msg.wrap(11)).toEqual('type script');
@@ -19,12 +20,138 @@ describe('AnsiMessage', () => {
     expect(msg.wrap(11)).toEqual('type script' + style(tf.clear));
   });
 
+  it('should emit styles if the standard output is a TTY', () => {
+    const str = new TerminalString().split('type script');
+    const msg = new AnsiMessage(str);
+    const isTTY = process.stdout.isTTY;
+    resetEnv();
+    try {
+      process.stdout.isTTY = true;
+      expect(msg.wrap(0)).toEqual('type script' + style(tf.clear));
+      process.stdout.isTTY = false;
+      process.env['FORCE_WIDTH'] = '11';
+      expect(msg.wrap(11)).toEqual('type script');
+      expect(msg.toString()).toEqual('type script');
+    } finally {
+      process.stdout.isTTY = isTTY;
+      resetEnv();
+    }
+  });
+
   it('can be thrown and caught', () => {
     const str = new TerminalString().split('type script');
     expect(() => {
       throw new AnsiMessage(str);
     }).toThrow('type script');
   });
+
+  it('should down-sample colors to the specified color level', () => {
+    const str = new TerminalString()
+      .seq(style(fg24('#ff0000'), bg8(21), ul8(9), tf.bold))
+      .word('x');
+    const msg = new AnsiMessage(str);
+    expect(msg.wrap(0, 3)).toEqual(
+      style(fg24('#ff0000'), bg8(21), ul8(9), tf.bold) + 'x' + style(tf.clear),
+    );
+    expect(msg.wrap(0, 2)).toEqual(
+      style(fg8(196), bg8(21), ul8(9), tf.bold) + 'x' + style(tf.clear),
+    );
+    expect(msg.wrap(0, 1)).toEqual(
+      style(fg.brightRed, bg.brightBlue, tf.bold) + 'x' + style(tf.clear),
+    );
+    expect(msg.wrap(0, 0)).toEqual('x');
+  });
+
+  it('should down-sample grayscale and dark colors to the specified color level', () => {
+    const str = new TerminalString()
+      .seq(style(fg24(128, 128, 128), bg24(0, 0, 0), fg8(3)))
+      .word('x');
+    const msg = new AnsiMessage(str);
+    expect(msg.wrap(0, 2)).toEqual(style(fg8(244), bg8(16), fg8(3)) + 'x' + style(tf.clear));
+    expect(msg.wrap(0, 1)).toEqual(style(fg.white, bg.black, fg.yellow) + 'x' + style(tf.clear));
+  });
+});
+
+describe('WarnMessage', () => {
+  it('should emit styles if the standard error is a TTY', () => {
+    const str = new TerminalString().split('type script');
+    const msg = new WarnMessage(str);
+    const [outTTY, errTTY] = [process.stdout.isTTY, process.stderr.isTTY];
+    try {
+      process.stdout.isTTY = true;
+      process.stderr.isTTY = false;
+      expect(msg.toString()).toEqual('type script');
+      process.stdout.isTTY = false;
+      process.stderr.isTTY = true;
+      expect(msg.toString()).toEqual('type script' + style(tf.clear));
+    } finally {
+      process.stdout.isTTY = outTTY;
+      process.stderr.isTTY = errTTY;
+    }
+  });
+});
+
+describe('AnsiMessage', () => {
+  it('should emit hyperlinks only if requested and styles are emitted', () => {
+    const str = new TerminalString().link('https://abc', 'type').word('script');
+    const msg = new AnsiMessage(str);
+    const link = '\x1b]8;;https://abc\x1b\\' + 'type' + '\x1b]8;;\x1b\\';
+    expect(msg.wrap(0, true, true)).toEqual(link + ' script' + style(tf.clear));
+    expect(msg.wrap(0, true, false)).toEqual('type script' + style(tf.clear));
+    expect(msg.wrap(0, false, true)).toEqual('type script');
+    expect(msg.wrap(0, 1, true)).toEqual(link + ' script' + style(tf.clear));
+  });
+});
+
+describe('detectHyperlinks', () => {
+  it('should disable hyperlinks when the terminal is not a TTY', () => {
+    expect(detectHyperlinks({}, false)).toBeFalsy();
+    expect(detectHyperlinks({ TERM_PROGRAM: 'vscode' }, false)).toBeFalsy();
+  });
+
+  it('should detect hyperlinks from known terminal emulators', () => {
+    expect(detectHyperlinks({}, true)).toBeFalsy();
+    expect(detectHyperlinks({ TERM_PROGRAM: 'vscode' }, true)).toBeTruthy();
+    expect(detectHyperlinks({ TERM: 'xterm-kitty' }, true)).toBeTruthy();
+    expect(detectHyperlinks({ WT_SESSION: 'abc' }, true)).toBeTruthy();
+    expect(detectHyperlinks({ VTE_VERSION: '4999' }, true)).toBeFalsy();
+    expect(detectHyperlinks({ VTE_VERSION: '5000' }, true)).toBeTruthy();
+  });
+
+  it('should honor FORCE_HYPERLINK', () => {
+    expect(detectHyperlinks({ FORCE_HYPERLINK: '1' }, false)).toBeTruthy();
+    expect(detectHyperlinks({ FORCE_HYPERLINK: '0', TERM_PROGRAM: 'vscode' }, true)).toBeFalsy();
+    expect(detectHyperlinks({ FORCE_HYPERLINK: 'false' }, true)).toBeFalsy();
+  });
+});
+
+describe('detectColorLevel', () => {
+  it('should disable colors when the terminal is not a TTY', () => {
+    expect(detectColorLevel({}, false)).toEqual(0);
+    expect(detectColorLevel({ COLORTERM: 'truecolor' }, false)).toEqual(0);
+  });
+
+  it('should disable colors when NO_COLOR is set or TERM is dumb', () => {
+    expect(detectColorLevel({ NO_COLOR: '1' }, true)).toEqual(0);
+    expect(detectColorLevel({ TERM: 'dumb' }, true)).toEqual(0);
+  });
+
+  it('should detect the color level from TERM and COLORTERM', () => {
+    expect(detectColorLevel({}, true)).toEqual(1);
+    expect(detectColorLevel({ TERM: 'xterm-256color' }, true)).toEqual(2);
+    expect(detectColorLevel({ TERM: 'xterm', COLORTERM: 'truecolor' }, true)).toEqual(3);
+    expect(detectColorLevel({ COLORTERM: '24bit' }, true)).toEqual(3);
+  });
+
+  it('should honor FORCE_COLOR as the minimum color level', () => {
+    expect(detectColorLevel({ FORCE_COLOR: '0', COLORTERM: 'truecolor' }, true)).toEqual(0);
+    expect(detectColorLevel({ FORCE_COLOR: 'false' }, true)).toEqual(0);
+    expect(detectColorLevel({ FORCE_COLOR: '1', NO_COLOR: '1' }, false)).toEqual(1);
+    expect(detectColorLevel({ FORCE_COLOR: 'true', TERM: 'dumb' }, false)).toEqual(1);
+    expect(detectColorLevel({ FORCE_COLOR: '2' }, false)).toEqual(2);
+    expect(detectColorLevel({ FORCE_COLOR: '1', COLORTERM: 'truecolor' }, false)).toEqual(3);
+    expect(detectColorLevel({ FORCE_COLOR: '9' }, false)).toEqual(3);
+  });
 });
 
 describe('WarnMessage', () => {
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import { type FormatStyles, TerminalString } from '../../lib';
-import { cs, tf, fg, bg, ul, seq, style, fg8, bg8, ul8 } from '../../lib';
+import { cs, tf, fg, bg, ul, seq, style, fg8, bg8, ul8, fg24, bg24, ul24 } from '../../lib';
 import '../utils.spec'; // initialize globals
 
 describe('TerminalString', () => {
@@ -40,6 +40,20 @@ describe('TerminalString', () => {
     });
   });
 
+  describe('link', () => {
+    it('should add a hyperlink with surrounding sequences', () => {
+      const str = new TerminalString()
+        .link('https://abc')
+        .link('https://abc', 'type', style(tf.bold), style(tf.clear));
+      expect(str.count).toEqual(2);
+      expect(str.lengths).toEqual([11, 4]);
+      expect(str.strings).toEqual([
+        '\x1b]8;;https://abc\x1b\\' + 'https://abc' + '\x1b]8;;\x1b\\',
+        '\x1b[1m' + '\x1b]8;;https://abc\x1b\\' + 'type' + '\x1b]8;;\x1b\\' + '\x1b[0m',
+      ]);
+    });
+  });
+
   describe('style', () => {
     it('should add a word with surrounding sequences', () => {
       const str = new TerminalString().style(
@@ -51,6 +65,19 @@ describe('TerminalString', () => {
       expect(str.lengths).toEqual([4]);
       expect(str.strings).toEqual(['\x1b[38;5;0;48;5;0;58;5;0m' + 'type' + '\x1b[0m']);
     });
+
+    it('should add a word with 24-bit colors', () => {
+      const str = new TerminalString().style(
+        style(fg24(255, 136, 0), bg24('#f80'), ul24('#FF8800')),
+        'type',
+        style(fg24('#zz'), bg24(1)),
+      );
+      expect(str.strings).toEqual([
+        '\x1b[38;2;255;136;0;48;2;255;136;0;58;2;255;136;0m' +
+          'type' +
+          '\x1b[38;2;0;0;0;48;2;1;0;0m',
+      ]);
+    });
   });
 
   describe('open', () => {
@@ -159,7 +186,7 @@ describe('TerminalString', () => {
         '/def/',
         'some name',
         '<() => 1>',
-        'https://abc/',
+        '\x1b]8;;https://abc/\x1b\\' + 'https://abc/' + '\x1b]8;;\x1b\\',
         'some',
         'text',
         'type',
@@ -199,8 +226,8 @@ describe('TerminalString', () => {
         'other name',
         '<() => 1>,',
         '<[object Object]>',
-        'https://abc/,',
-        'ftp://def/',
+        '\x1b]8;;https://abc/\x1b\\' + 'https://abc/' + '\x1b]8;;\x1b\\' + ',',
+        '\x1b]8;;ftp://def/\x1b\\' + 'ftp://def/' + '\x1b]8;;\x1b\\',
         'some',
         'text,',
         'other',
@@ -250,9 +277,9 @@ describe('TerminalString', () => {
         '<() => 1>',
         '-',
         '<[object Object]>',
-        'https://abc/',
+        '\x1b]8;;https://abc/\x1b\\' + 'https://abc/' + '\x1b]8;;\x1b\\',
         '-',
-        'ftp://def/',
+        '\x1b]8;;ftp://def/\x1b\\' + 'ftp://def/' + '\x1b]8;;\x1b\\',
         'some',
         'text',
         '-',
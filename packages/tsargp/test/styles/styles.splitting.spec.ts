@@ -11,6 +11,24 @@ describe('TerminalString', () => {
       expect(str.strings).toEqual(['⚠️', 'type', 'script']);
     });
 
+    it('should split text with wide characters', () => {
+      const str = new TerminalString().split(`日本語の テキスト ｔｙｐｅ`); // cspell:disable-line
+      expect(str.count).toEqual(3);
+      expect(str.lengths).toEqual([8, 8, 8]);
+    });
+
+    it('should split text with emoji sequences and zero-width joiners', () => {
+      const str = new TerminalString().split(`👍 👨‍👩‍👧 🇯🇵 ☺ ☺️ a\u200bb`);
+      expect(str.count).toEqual(6);
+      expect(str.lengths).toEqual([2, 2, 2, 1, 2, 2]);
+    });
+
+    it('should split text with combining accents', () => {
+      const str = new TerminalString().split(`cafe\u0301 nai\u0308ve \u0301`);
+      expect(str.count).toEqual(3);
+      expect(str.lengths).toEqual([4, 5, 0]);
+    });
+
     it('should split text with style sequences', () => {
       const str = new TerminalString().split(`${style(tf.clear)}type script${style(tf.clear)}`);
       expect(str.count).toEqual(2);
@@ -18,6 +36,24 @@ describe('TerminalString', () => {
       expect(str.strings).toEqual(['\x1b[0m' + 'type', 'script' + '\x1b[0m']);
     });
 
+    it('should split text with URLs into hyperlinks', () => {
+      const str = new TerminalString().split('see https://abc/d, or ftp:/x');
+      expect(str.count).toEqual(4);
+      expect(str.lengths).toEqual([3, 14, 2, 6]);
+      expect(str.strings).toEqual([
+        'see',
+        '\x1b]8;;https://abc/d\x1b\\' + 'https://abc/d' + '\x1b]8;;\x1b\\' + ',',
+        'or',
+        'ftp:/x',
+      ]);
+    });
+
+    it('should split text with URLs by their display width', () => {
+      const str = new TerminalString().split('https://日本.jp/');
+      expect(str.count).toEqual(1);
+      expect(str.lengths).toEqual([16]);
+    });
+
     it('should split text with paragraphs', () => {
       const str = new TerminalString().split('type\nscript\n\nis\nfun');
       expect(str.count).toEqual(5);
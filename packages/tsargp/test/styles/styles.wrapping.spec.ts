@@ -45,6 +45,12 @@ describe('TerminalString', () => {
           expect(result).toEqual([' ', 'abc', ' def']);
         });
 
+        it('should shorten the current line by resizing previous wide strings', () => {
+          const result = ['日本語'];
+          new TerminalString().split('abc def').wrap(result, 2, 0, false);
+          expect(result).toEqual(['日本', 'abc', ' def']);
+        });
+
         it('should not adjust the current line if the string is empty', () => {
           const result = ['  '];
           new TerminalString().wrap(result, 2, 0, false);
@@ -143,6 +149,12 @@ describe('TerminalString', () => {
         expect(result).toEqual(['⚠️', '\n', 'largest']);
       });
 
+      it('should wrap wide characters by their display width', () => {
+        const result: Array<string> = [];
+        new TerminalString().split('日本語 テキスト').wrap(result, 0, 8, false);
+        expect(result).toEqual(['日本語', '\n', 'テキスト']);
+      });
+
       it('should omit styles', () => {
         const result: Array<string> = [];
         new TerminalString()
@@ -213,6 +225,12 @@ describe('TerminalString', () => {
           expect(result).toEqual(['    ', 'type', '\n', '  ', 'script']);
         });
 
+        it('should align wide characters by their display width', () => {
+          const result: Array<string> = [];
+          new TerminalString(0, 0, true).split('日本 語です').wrap(result, 0, 8, false);
+          expect(result).toEqual(['    ', '日本', '\n', '  ', '語です']);
+        });
+
         describe('when emitting styles', () => {
           it('should align with a move sequence when breaking the line', () => {
             const result: Array<string> = [];
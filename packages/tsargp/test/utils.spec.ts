@@ -25,7 +25,15 @@ import {
 /** @ignore */
 export function resetEnv() {
   process.env['FORCE_WIDTH'] = '0';
-  for (const name of ['FORCE_COLOR', 'NO_COLOR', 'TERM', 'COMP_LINE', 'COMP_POINT']) {
+  for (const name of [
+    'FORCE_COLOR',
+    'NO_COLOR',
+    'TERM',
+    'COLORTERM',
+    'COMP_LINE',
+    'COMP_POINT',
+    'SHELL',
+  ]) {
     // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
     delete process.env[name];
   }
@@ -43,6 +51,15 @@ describe('getArgs', () => {
       expect(getArgs(' cmd  type  script ')).toEqual(['type', 'script']);
     });
 
+    it('should not split arguments on other whitespace characters by default', () => {
+      expect(getArgs('cmd type\tscript\r\nis fun')).toEqual(['type\tscript\r\nis', 'fun']);
+    });
+
+    it('should split arguments on other whitespace characters if requested', () => {
+      expect(getArgs('cmd\ttype\r\nscript\n', NaN, true)).toEqual(['type', 'script']);
+      expect(getArgs(`cmd "type\nscript"`, NaN, true)).toEqual(['type\nscript']);
+    });
+
     it('should handle quoted arguments', () => {
       expect(getArgs(`cmd "" ''`)).toEqual(['', '']);
       expect(getArgs(`cmd " " ' '`)).toEqual([' ', ' ']);
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { type Options, OptionValidator } from '../../lib';
+import '../utils.spec'; // initialize globals
+
+describe('OptionValidator', () => {
+  describe('validate', () => {
+    it('should throw an error on exclusive group with unknown option', async () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options, undefined, [{ keys: ['flag', 'other'] }]);
+      await expect(validator.validate()).rejects.toThrow(
+        `Exclusive group references unknown option other.`,
+      );
+    });
+
+    it('should throw an error on exclusive group with a key inherited from the object prototype', async () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options, undefined, [{ keys: ['flag', 'toString'] }]);
+      await expect(validator.validate()).rejects.toThrow(
+        `Exclusive group references unknown option toString.`,
+      );
+    });
+
+    it('should throw an error on exclusive group with duplicate option', async () => {
+      const options = {
+        flag: {
+          type: 'flag',
+          names: ['-f'],
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options, undefined, [{ keys: ['flag', 'flag'] }]);
+      await expect(validator.validate()).rejects.toThrow(
+        `Exclusive group has duplicate option flag.`,
+      );
+    });
+
+    it('should throw an error on exclusive group with an always required option', async () => {
+      const options = {
+        flag1: {
+          type: 'flag',
+          names: ['-f1'],
+        },
+        flag2: {
+          type: 'flag',
+          names: ['-f2'],
+          required: true,
+        },
+      } as const satisfies Options;
+      const keys = ['flag1', 'flag2'];
+      for (const kind of ['atMostOne', 'exactlyOne'] as const) {
+        const validator = new OptionValidator(options, undefined, [{ kind, keys }]);
+        await expect(validator.validate()).rejects.toThrow(
+          `Invalid option flag2 in exclusive group. Option is always required.`,
+        );
+      }
+      const validator = new OptionValidator(options, undefined, [{ kind: 'atLeastOne', keys }]);
+      await expect(validator.validate()).resolves.toMatchObject({});
+    });
+
+    it('should validate the exclusive groups of a nested command', async () => {
+      const options = {
+        command: {
+          type: 'command',
+          names: ['-c'],
+          options: {
+            flag: {
+              type: 'flag',
+              names: ['-f'],
+            },
+          },
+          exclusive: [{ keys: ['flag', 'other'] }],
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options);
+      await expect(validator.validate()).rejects.toThrow(
+        `Exclusive group references unknown option command.other.`,
+      );
+    });
+  });
+});
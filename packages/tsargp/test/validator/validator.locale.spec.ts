@@ -0,0 +1,41 @@
+// cspell:disable
+import { describe, expect, it } from 'vitest';
+import { type Options, OptionValidator, ErrorItem, HelpItem } from '../../lib';
+import { resolveConfig } from '../../lib/validator';
+import '../utils.spec'; // initialize globals
+
+describe('OptionValidator', () => {
+  describe('validate', () => {
+    it('should throw an error on locale phrase with different format specifiers', async () => {
+      const options = {} as const satisfies Options;
+      const config1 = resolveConfig({
+        locales: {
+          pt: { phrases: { [ErrorItem.missingRequiredOption]: 'Opção %s é obrigatória.' } },
+        },
+      });
+      const validator1 = new OptionValidator(options, config1);
+      await expect(validator1.validate()).rejects.toThrow(
+        `Invalid phrase 'Opção %s é obrigatória.' in locale 'pt'. Format specifiers must match those of the original phrase.`,
+      );
+      const config2 = resolveConfig({
+        locales: { pt: { helpPhrases: { [HelpItem.limit]: 'Limitado a elementos.' } } },
+      });
+      const validator2 = new OptionValidator(options, config2);
+      await expect(validator2.validate()).rejects.toThrow(`Invalid phrase`);
+    });
+
+    it('should accept locale phrases with the same format specifiers in any order', async () => {
+      const options = {} as const satisfies Options;
+      const config = resolveConfig({
+        locales: {
+          pt: {
+            phrases: { [ErrorItem.unsatisfiedRequirement]: 'Requer %p para a opção %o.' },
+            helpPhrases: { [HelpItem.required]: 'Sempre obrigatória.' },
+          },
+        },
+      });
+      const validator = new OptionValidator(options, config);
+      await expect(validator.validate()).resolves.toEqual({});
+    });
+  });
+});
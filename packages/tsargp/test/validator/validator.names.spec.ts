@@ -169,6 +169,45 @@ describe('OptionValidator', () => {
       );
     });
 
+    it('should return a warning on option name that is a prefix of other abbreviated names', async () => {
+      const options = {
+        command: {
+          type: 'command',
+          names: ['-c'],
+          options: {
+            flag1: {
+              type: 'flag',
+              names: ['--ver', '--verb'],
+              abbreviate: true,
+            },
+            flag2: {
+              type: 'flag',
+              names: ['--verbose'],
+              abbreviate: true,
+            },
+            flag3: {
+              type: 'flag',
+              names: ['--version'],
+            },
+          },
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options);
+      const { warning } = await validator.validate();
+      expect(warning).toHaveLength(2);
+      expect(warning?.message).toEqual(
+        `command: Option name '--ver' is a prefix of other names: '--verbose'. Its abbreviations are ambiguous.\n` +
+          `command: Option name '--verb' is a prefix of other names: '--verbose'. Its abbreviations are ambiguous.\n`,
+      );
+      const flags: ValidationFlags = { abbreviate: true };
+      const { warning: warning2 } = await validator.validate(flags);
+      expect(warning2).toHaveLength(2);
+      expect(warning2?.message).toEqual(
+        `command: Option name '--ver' is a prefix of other names: '--verbose', '--version'. Its abbreviations are ambiguous.\n` +
+          `command: Option name '--verb' is a prefix of other names: '--verbose'. Its abbreviations are ambiguous.\n`,
+      );
+    });
+
     it('should return a warning on option name too similar to other names in a nested command', async () => {
       const options = {
         command: {
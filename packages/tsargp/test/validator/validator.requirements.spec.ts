@@ -57,6 +57,20 @@ describe('OptionValidator', () => {
       await expect(validator.validate()).rejects.toThrow(`Unknown option unknown in requirement.`);
     });
 
+    it('should throw an error on required option inherited from the object prototype', async () => {
+      const options = {
+        requires: {
+          type: 'flag',
+          names: ['-f1'],
+          requires: 'constructor',
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options);
+      await expect(validator.validate()).rejects.toThrow(
+        `Unknown option constructor in requirement.`,
+      );
+    });
+
     it('should throw an error on required help option', async () => {
       const options = {
         requires: {
@@ -292,6 +306,42 @@ describe('OptionValidator', () => {
       );
     });
 
+    it('should throw an error on bigint option required with an incompatible value', async () => {
+      const options = {
+        requires: {
+          type: 'flag',
+          names: ['-f'],
+          requires: { required: 1 },
+        },
+        required: {
+          type: 'bigint',
+          names: ['-b'],
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options);
+      await expect(validator.validate()).rejects.toThrow(
+        `Incompatible required value <1> for option required. Should be of type 'bigint'.`,
+      );
+    });
+
+    it('should throw an error on date option required with an incompatible value', async () => {
+      const options = {
+        requires: {
+          type: 'flag',
+          names: ['-f'],
+          requires: { required: '2024-01-01' },
+        },
+        required: {
+          type: 'date',
+          names: ['-d'],
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options);
+      await expect(validator.validate()).rejects.toThrow(
+        `Incompatible required value <2024-01-01> for option required. Should be of type 'Date'.`,
+      );
+    });
+
     it('should throw an error on boolean option required with an incompatible value', async () => {
       const options = {
         requires: {
@@ -328,6 +378,42 @@ describe('OptionValidator', () => {
       );
     });
 
+    it('should throw an error on count option required with an incompatible value', async () => {
+      const options = {
+        requires: {
+          type: 'flag',
+          names: ['-f'],
+          requires: { required: '1' },
+        },
+        required: {
+          type: 'count',
+          names: ['-v'],
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options);
+      await expect(validator.validate()).rejects.toThrow(
+        `Incompatible required value <1> for option required. Should be of type 'number'.`,
+      );
+    });
+
+    it('should throw an error on record option required with an incompatible value', async () => {
+      const options = {
+        requires: {
+          type: 'flag',
+          names: ['-f'],
+          requires: { required: 1 },
+        },
+        required: {
+          type: 'record',
+          names: ['-D'],
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options);
+      await expect(validator.validate()).rejects.toThrow(
+        `Incompatible required value <1> for option required. Should be of type 'object'.`,
+      );
+    });
+
     it('should throw an error on number option required with an incompatible value', async () => {
       const options = {
         requires: {
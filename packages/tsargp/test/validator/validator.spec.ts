@@ -41,6 +41,25 @@ describe('OptionValidator', () => {
       );
     });
 
+    it('should throw an error on duplicate configuration file option', async () => {
+      const options = {
+        string1: {
+          type: 'string',
+          names: ['-s1'],
+          configFile: true,
+        },
+        string2: {
+          type: 'string',
+          names: ['-s2'],
+          configFile: true,
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options);
+      await expect(validator.validate()).rejects.toThrow(
+        `Duplicate configuration file option string2: previous was string1.`,
+      );
+    });
+
     it('should throw an error on version option with empty version', async () => {
       const options = {
         version: {
@@ -670,5 +670,79 @@ describe('OptionValidator', () => {
         `Option required has too many values (3). Should have at most 2.`,
       );
     });
+
+    it('should throw an error on bigint default value not in range', async () => {
+      const options = {
+        bigint: {
+          type: 'bigint',
+          names: ['-b'],
+          range: [0, 2n ** 64n - 1n],
+          default: 2n ** 64n,
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options);
+      await expect(validator.validate()).rejects.toThrow(
+        `Invalid parameter to bigint: 18446744073709551616. Value must be in the range [0, 18446744073709551615].`,
+      );
+    });
+
+    it('should throw an error on bigints example value not in enumeration', async () => {
+      const options = {
+        bigints: {
+          type: 'bigints',
+          names: ['-bs'],
+          enums: [1n, 2n],
+          example: [1n, 3n],
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options);
+      await expect(validator.validate()).rejects.toThrow(
+        `Invalid parameter to bigints: 3. Possible values are {1, 2}.`,
+      );
+    });
+
+    it('should throw an error on duration default value not in range', async () => {
+      const options = {
+        duration: {
+          type: 'duration',
+          names: ['-t'],
+          range: [1000, 60000],
+          default: 90000,
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options);
+      await expect(validator.validate()).rejects.toThrow(
+        `Invalid parameter to duration: 1m30s. Value must be in the range [1s, 1m].`,
+      );
+    });
+
+    it('should throw an error on dates example value not in range', async () => {
+      const options = {
+        dates: {
+          type: 'dates',
+          names: ['-d'],
+          range: [Date.parse('2000-01-01'), Infinity],
+          example: [new Date('2024-01-01'), new Date('1999-12-31')],
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options);
+      await expect(validator.validate()).rejects.toThrow(
+        `Invalid parameter to dates: 1999-12-31. Value must be in the range [2000-01-01, Infinity].`,
+      );
+    });
+
+    it('should throw an error on paths default value with incompatible element', async () => {
+      const options = {
+        paths: {
+          type: 'paths',
+          names: ['-ps'],
+          default: ['file', 1 as unknown as string],
+        },
+      } as const satisfies Options;
+      const validator = new OptionValidator(options);
+      await expect(validator.validate()).rejects.toThrow(
+        `Incompatible required value <1> for option paths. Should be of type 'string'.`,
+      );
+    });
   });
 });